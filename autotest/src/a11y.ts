@@ -0,0 +1,311 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import type { Locator } from "playwright";
+import { installEvalShim } from "./snapshot.js";
+
+export const A11Y_IMPACTS = ["minor", "moderate", "serious", "critical"] as const;
+export type A11yImpact = typeof A11Y_IMPACTS[number];
+
+type RuleMeta = { impact: A11yImpact; wcag: string; description: string; help: string; helpUrl: string };
+
+const UNDERSTANDING = "https://www.w3.org/WAI/WCAG21/Understanding";
+
+// 规则元数据；检查逻辑在页面内执行（见 runA11yAudit）
+export const A11Y_RULES: Record<string, RuleMeta> = {
+  "image-alt": { impact: "critical", wcag: "1.1.1", description: "图片缺少替代文本", help: "为 <img> / <input type=image> / <area> 提供 alt，装饰性图片使用 alt=\"\"", helpUrl: `${UNDERSTANDING}/non-text-content` },
+  "label": { impact: "critical", wcag: "1.3.1, 4.1.2", description: "表单控件没有可访问名称", help: "使用 <label for>、包裹的 <label>、aria-label 或 aria-labelledby 标注控件", helpUrl: `${UNDERSTANDING}/labels-or-instructions` },
+  "button-name": { impact: "critical", wcag: "4.1.2", description: "按钮没有可访问名称", help: "为按钮提供文本内容、aria-label 或 title", helpUrl: `${UNDERSTANDING}/name-role-value` },
+  "link-name": { impact: "serious", wcag: "2.4.4, 4.1.2", description: "链接没有可访问名称", help: "为链接提供可辨识的文本或 aria-label", helpUrl: `${UNDERSTANDING}/link-purpose-in-context` },
+  "color-contrast": { impact: "serious", wcag: "1.4.3", description: "文本与背景的对比度不足", help: "普通文本对比度至少 4.5:1，大号文本（≥24px 或 ≥18.66px 粗体）至少 3:1", helpUrl: `${UNDERSTANDING}/contrast-minimum` },
+  "heading-order": { impact: "moderate", wcag: "1.3.1", description: "标题层级跳级", help: "标题级别每次最多加深一级（如 h2 之后为 h3）", helpUrl: `${UNDERSTANDING}/info-and-relationships` },
+  "duplicate-id": { impact: "minor", wcag: "4.1.1", description: "id 属性值重复", help: "保证同一文档内 id 唯一", helpUrl: `${UNDERSTANDING}/parsing` },
+  "duplicate-id-aria": { impact: "critical", wcag: "4.1.1", description: "被 ARIA 或 label 引用的 id 重复", help: "被 aria-labelledby / aria-describedby / label[for] 引用的 id 必须唯一", helpUrl: `${UNDERSTANDING}/parsing` },
+  "aria-valid-role": { impact: "critical", wcag: "4.1.2", description: "role 属性值无效", help: "role 必须是 WAI-ARIA 规范中定义的角色", helpUrl: `${UNDERSTANDING}/name-role-value` },
+  "aria-valid-attr": { impact: "critical", wcag: "4.1.2", description: "aria-* 属性名无效", help: "只使用 WAI-ARIA 规范中定义的 aria-* 属性（注意拼写）", helpUrl: `${UNDERSTANDING}/name-role-value` },
+  "aria-required-attr": { impact: "critical", wcag: "4.1.2", description: "角色缺少必需的 ARIA 属性", help: "如 role=checkbox 需要 aria-checked，role=slider 需要 aria-valuenow，role=heading 需要 aria-level", helpUrl: `${UNDERSTANDING}/name-role-value` },
+  "aria-hidden-focus": { impact: "serious", wcag: "4.1.2", description: "aria-hidden 区域内包含可聚焦元素", help: "aria-hidden=\"true\" 的元素及其后代不应可聚焦，可改用 inert 或 tabindex=\"-1\"", helpUrl: `${UNDERSTANDING}/name-role-value` },
+  "tabindex": { impact: "serious", wcag: "2.4.3", description: "tabindex 大于 0", help: "避免正数 tabindex，按 DOM 顺序组织焦点", helpUrl: `${UNDERSTANDING}/focus-order` },
+  "frame-title": { impact: "serious", wcag: "4.1.2", description: "iframe 缺少 title", help: "为 <iframe> 提供描述其内容的 title", helpUrl: `${UNDERSTANDING}/name-role-value` },
+  "document-title": { impact: "serious", wcag: "2.4.2", description: "页面缺少 <title>", help: "提供描述页面主题的非空 <title>", helpUrl: `${UNDERSTANDING}/page-titled` },
+  "html-has-lang": { impact: "serious", wcag: "3.1.1", description: "<html> 缺少 lang 属性", help: "在 <html> 上设置有效的 lang（如 zh-CN、en）", helpUrl: `${UNDERSTANDING}/language-of-page` }
+};
+
+export type A11yNode = { selector: string; html: string; message?: string };
+
+export type A11yViolation = RuleMeta & { rule: string; nodes: A11yNode[] };
+
+export type A11yAuditOptions = {
+  rules?: string[];
+  disableRules?: string[];
+  // 单条规则最多记录的节点数
+  maxNodes?: number;
+};
+
+export function impactRank(impact: A11yImpact): number {
+  return A11Y_IMPACTS.indexOf(impact);
+}
+
+// 超过允许的最高影响级别的违规（maxImpact 未指定时任何违规都不允许）
+export function violationsAbove(violations: A11yViolation[], maxImpact?: A11yImpact): A11yViolation[] {
+  const limit = maxImpact ? impactRank(maxImpact) : -1;
+  return violations.filter((v) => impactRank(v.impact) > limit);
+}
+
+export function countByImpact(violations: A11yViolation[]): Record<A11yImpact, number> {
+  const counts = { minor: 0, moderate: 0, serious: 0, critical: 0 };
+  for (const v of violations) counts[v.impact] += v.nodes.length;
+  return counts;
+}
+
+// 单行摘要，如 `image-alt(critical) x2, color-contrast(serious) x1`
+export function summarizeViolations(violations: A11yViolation[]): string {
+  return violations.map((v) => `${v.rule}(${v.impact}) x${v.nodes.length}`).join(", ");
+}
+
+// 在 root（整页或某个元素/frame 作用域）上执行规则集，返回按影响级别从高到低排序的违规
+export async function runA11yAudit(root: Locator, options: A11yAuditOptions = {}): Promise<A11yViolation[]> {
+  const unknown = [...(options.rules ?? []), ...(options.disableRules ?? [])].filter((r) => !A11Y_RULES[r]);
+  if (unknown.length) {
+    throw new McpError(ErrorCode.InvalidParams, `未知的无障碍规则: ${unknown.join(", ")}（可用: ${Object.keys(A11Y_RULES).join(", ")}）`);
+  }
+  const enabled = (options.rules?.length ? options.rules : Object.keys(A11Y_RULES)).filter((r) => !options.disableRules?.includes(r));
+  await installEvalShim(root);
+  const found = await root.evaluate((rootEl, opts) => {
+    const { enabled, maxNodes } = opts;
+    const on = new Set(enabled);
+    const doc = rootEl.ownerDocument;
+    const out: Record<string, Array<{ selector: string; html: string; message?: string }>> = {};
+
+    const ROLES = new Set([
+      "alert", "alertdialog", "application", "article", "banner", "blockquote", "button", "caption", "cell", "checkbox",
+      "code", "columnheader", "combobox", "complementary", "contentinfo", "definition", "deletion", "dialog", "directory",
+      "document", "emphasis", "feed", "figure", "form", "generic", "grid", "gridcell", "group", "heading", "img", "insertion",
+      "link", "list", "listbox", "listitem", "log", "main", "marquee", "math", "menu", "menubar", "menuitem",
+      "menuitemcheckbox", "menuitemradio", "meter", "navigation", "none", "note", "option", "paragraph", "presentation",
+      "progressbar", "radio", "radiogroup", "region", "row", "rowgroup", "rowheader", "scrollbar", "search", "searchbox",
+      "separator", "slider", "spinbutton", "status", "strong", "subscript", "superscript", "switch", "tab", "table",
+      "tablist", "tabpanel", "term", "textbox", "time", "timer", "toolbar", "tooltip", "tree", "treegrid", "treeitem"
+    ]);
+    const ARIA_ATTRS = new Set([
+      "activedescendant", "atomic", "autocomplete", "braillelabel", "brailleroledescription", "busy", "checked", "colcount",
+      "colindex", "colindextext", "colspan", "controls", "current", "describedby", "description", "details", "disabled",
+      "dropeffect", "errormessage", "expanded", "flowto", "grabbed", "haspopup", "hidden", "invalid", "keyshortcuts", "label",
+      "labelledby", "level", "live", "modal", "multiline", "multiselectable", "orientation", "owns", "placeholder", "posinset",
+      "pressed", "readonly", "relevant", "required", "roledescription", "rowcount", "rowindex", "rowindextext", "rowspan",
+      "selected", "setsize", "sort", "valuemax", "valuemin", "valuenow", "valuetext"
+    ]);
+    const REQUIRED_ATTRS: Record<string, string[]> = {
+      checkbox: ["aria-checked"], radio: ["aria-checked"], switch: ["aria-checked"], menuitemcheckbox: ["aria-checked"],
+      menuitemradio: ["aria-checked"], slider: ["aria-valuenow"], scrollbar: ["aria-valuenow", "aria-controls"],
+      heading: ["aria-level"], combobox: ["aria-expanded"]
+    };
+    // 原生元素已隐式提供必需状态，无需再声明 ARIA 属性
+    const NATIVE_STATE = new Set(["INPUT", "SELECT", "TEXTAREA", "H1", "H2", "H3", "H4", "H5", "H6"]);
+
+    const selectorOf = (el: Element): string => {
+      const id = el.getAttribute("id");
+      if (id && doc.querySelectorAll(`#${CSS.escape(id)}`).length === 1) return `#${CSS.escape(id)}`;
+      const parts: string[] = [];
+      for (let cur: Element | null = el; cur && cur !== doc.documentElement; cur = cur.parentElement) {
+        const curId = cur.getAttribute("id");
+        if (curId && cur !== el && doc.querySelectorAll(`#${CSS.escape(curId)}`).length === 1) {
+          parts.unshift(`#${CSS.escape(curId)}`);
+          return parts.join(" > ");
+        }
+        const tag = cur.tagName.toLowerCase();
+        const parent: Element | null = cur.parentElement;
+        const same = parent ? Array.from(parent.children).filter((c) => c.tagName === cur!.tagName) : [];
+        parts.unshift(same.length > 1 ? `${tag}:nth-of-type(${same.indexOf(cur) + 1})` : tag);
+      }
+      return parts.join(" > ") || "html";
+    };
+    const htmlOf = (el: Element): string => {
+      const open = /^<[^>]*>/.exec(el.outerHTML)?.[0] ?? el.tagName.toLowerCase();
+      return open.length > 200 ? `${open.slice(0, 200)}…` : open;
+    };
+    const report = (rule: string, el: Element, message?: string) => {
+      if (!on.has(rule)) return;
+      const list = out[rule] ?? (out[rule] = []);
+      if (list.length < maxNodes) list.push({ selector: selectorOf(el), html: htmlOf(el), ...(message ? { message } : {}) });
+    };
+
+    const isHidden = (el: Element): boolean => {
+      for (let cur: Element | null = el; cur; cur = cur.parentElement) {
+        const style = getComputedStyle(cur);
+        if (style.display === "none") return true;
+      }
+      return getComputedStyle(el).visibility === "hidden";
+    };
+    const textOf = (el: Element | null): string => (el?.textContent ?? "").replace(/\s+/g, " ").trim();
+    const nameOf = (el: Element): string => {
+      const label = el.getAttribute("aria-label")?.trim();
+      if (label) return label;
+      const labelledBy = el.getAttribute("aria-labelledby");
+      if (labelledBy) {
+        const text = labelledBy.split(/\s+/).map((id) => textOf(doc.getElementById(id))).join(" ").trim();
+        if (text) return text;
+      }
+      const id = el.getAttribute("id");
+      if (id) {
+        const forLabel = doc.querySelector(`label[for="${CSS.escape(id)}"]`);
+        if (textOf(forLabel)) return textOf(forLabel);
+      }
+      const wrapping = el.closest("label");
+      if (wrapping && textOf(wrapping)) return textOf(wrapping);
+      return el.getAttribute("title")?.trim() ?? "";
+    };
+    const contentName = (el: Element): string => {
+      const imgAlt = Array.from(el.querySelectorAll("img[alt]")).map((img) => img.getAttribute("alt") ?? "").join(" ").trim();
+      return nameOf(el) || textOf(el) || imgAlt;
+    };
+
+    const scope = [rootEl, ...Array.from(rootEl.querySelectorAll("*"))];
+    const isDocument = rootEl === doc.documentElement;
+
+    // 文档级规则
+    if (isDocument) {
+      if (!doc.title.trim()) report("document-title", rootEl);
+      if (!rootEl.getAttribute("lang")?.trim()) report("html-has-lang", rootEl);
+    }
+
+    // id 重复：被引用的 id 重复更严重
+    const referenced = new Set<string>();
+    for (const el of Array.from(doc.querySelectorAll("[aria-labelledby], [aria-describedby], [aria-controls], label[for]"))) {
+      for (const attr of ["aria-labelledby", "aria-describedby", "aria-controls", "for"]) {
+        for (const id of (el.getAttribute(attr) ?? "").split(/\s+/)) if (id) referenced.add(id);
+      }
+    }
+    const seenIds = new Map<string, number>();
+    for (const el of scope) {
+      const id = el.getAttribute("id");
+      if (id) seenIds.set(id, (seenIds.get(id) ?? 0) + 1);
+    }
+    for (const el of scope) {
+      const id = el.getAttribute("id");
+      if (!id || (seenIds.get(id) ?? 0) < 2) continue;
+      report(referenced.has(id) ? "duplicate-id-aria" : "duplicate-id", el, `id="${id}" 出现 ${seenIds.get(id)} 次`);
+    }
+
+    let lastHeading = 0;
+    for (const el of scope) {
+      const tag = el.tagName;
+      const role = el.getAttribute("role")?.trim().split(/\s+/)[0] ?? "";
+
+      for (const attr of Array.from(el.attributes)) {
+        if (attr.name.startsWith("aria-") && !ARIA_ATTRS.has(attr.name.slice(5))) report("aria-valid-attr", el, attr.name);
+      }
+      if (role && !ROLES.has(role)) report("aria-valid-role", el, `role="${role}"`);
+      if (role && REQUIRED_ATTRS[role] && !NATIVE_STATE.has(tag)) {
+        const missing = REQUIRED_ATTRS[role].filter((a) => !el.hasAttribute(a));
+        if (missing.length) report("aria-required-attr", el, `role="${role}" 缺少 ${missing.join(", ")}`);
+      }
+      const tabindex = Number(el.getAttribute("tabindex"));
+      if (tabindex > 0) report("tabindex", el, `tabindex="${tabindex}"`);
+      if (el.getAttribute("aria-hidden") === "true") {
+        const focusable = el.querySelector("a[href], button:not([disabled]), input:not([disabled]):not([type=hidden]), select:not([disabled]), textarea:not([disabled]), [tabindex]:not([tabindex='-1'])");
+        if (focusable) report("aria-hidden-focus", el, `包含可聚焦元素 ${htmlOf(focusable)}`);
+      }
+
+      if (isHidden(el) || el.closest("[aria-hidden='true']")) continue;
+      const presentational = role === "presentation" || role === "none";
+
+      if (tag === "IMG" && !presentational && !el.hasAttribute("alt") && !nameOf(el)) report("image-alt", el);
+      if (tag === "AREA" && el.hasAttribute("href") && !el.getAttribute("alt")?.trim() && !nameOf(el)) report("image-alt", el);
+      if (tag === "INPUT" && (el as HTMLInputElement).type === "image" && !el.getAttribute("alt")?.trim() && !nameOf(el)) report("image-alt", el);
+
+      if (tag === "INPUT" || tag === "SELECT" || tag === "TEXTAREA") {
+        const type = (el as HTMLInputElement).type?.toLowerCase();
+        if (tag !== "INPUT" || !["hidden", "submit", "button", "reset", "image"].includes(type)) {
+          if (!nameOf(el) && !(el.getAttribute("placeholder") ?? "").trim()) report("label", el);
+        } else if (type === "button" && !nameOf(el) && !(el as HTMLInputElement).value.trim()) {
+          report("button-name", el);
+        }
+      }
+      if ((tag === "BUTTON" || role === "button") && !contentName(el)) report("button-name", el);
+      if (tag === "A" && el.hasAttribute("href") && !presentational && !contentName(el)) report("link-name", el);
+      if (tag === "IFRAME" && !el.getAttribute("title")?.trim() && !nameOf(el)) report("frame-title", el);
+
+      const level = /^H([1-6])$/.exec(tag)?.[1] ?? (role === "heading" ? el.getAttribute("aria-level") : null);
+      if (level) {
+        const n = Number(level);
+        if (lastHeading && n > lastHeading + 1) report("heading-order", el, `h${lastHeading} 之后出现 h${n}`);
+        lastHeading = n;
+      }
+
+      if (on.has("color-contrast")) {
+        const ownText = Array.from(el.childNodes).some((n) => n.nodeType === 3 && (n.textContent ?? "").trim());
+        if (ownText) {
+          const ratio = contrastOf(el);
+          if (ratio) {
+            const style = getComputedStyle(el);
+            const size = parseFloat(style.fontSize);
+            const bold = Number(style.fontWeight) >= 700 || style.fontWeight === "bold";
+            const large = size >= 24 || (bold && size >= 18.66);
+            const required = large ? 3 : 4.5;
+            if (ratio.value < required) {
+              report("color-contrast", el, `对比度 ${ratio.value.toFixed(2)}:1（需要 ${required}:1），前景 ${ratio.fg}，背景 ${ratio.bg}`);
+            }
+          }
+        }
+      }
+    }
+    return out;
+
+    // 计算前景色与最近不透明背景的对比度；背景为图片或无法确定时返回 null
+    function contrastOf(el: Element): { value: number; fg: string; bg: string } | null {
+      const parse = (c: string): number[] | null => {
+        const m = /rgba?\(([^)]+)\)/.exec(c);
+        if (!m) return null;
+        const parts = m[1].split(/[\s,/]+/).filter(Boolean).map(Number);
+        return [parts[0], parts[1], parts[2], parts[3] ?? 1];
+      };
+      const fg = parse(getComputedStyle(el).color);
+      if (!fg) return null;
+      let bg: number[] | null = null;
+      let bgText = "rgb(255, 255, 255)";
+      for (let cur: Element | null = el; cur; cur = cur.parentElement) {
+        const style = getComputedStyle(cur);
+        if (style.backgroundImage && style.backgroundImage !== "none") return null;
+        const c = parse(style.backgroundColor);
+        if (c && c[3] > 0) {
+          if (c[3] < 1) return null;
+          bg = c;
+          bgText = style.backgroundColor;
+          break;
+        }
+      }
+      bg = bg ?? [255, 255, 255, 1];
+      // 半透明前景色与背景混合
+      const mixed = fg.slice(0, 3).map((v, i) => v * fg[3] + bg![i] * (1 - fg[3]));
+      const lum = (rgb: number[]) => {
+        const [r, g, b] = rgb.map((v) => {
+          const s = v / 255;
+          return s <= 0.03928 ? s / 12.92 : Math.pow((s + 0.055) / 1.055, 2.4);
+        });
+        return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+      };
+      const l1 = lum(mixed);
+      const l2 = lum(bg);
+      const value = (Math.max(l1, l2) + 0.05) / (Math.min(l1, l2) + 0.05);
+      return { value, fg: getComputedStyle(el).color, bg: bgText };
+    }
+  }, { enabled, maxNodes: options.maxNodes ?? 20 });
+
+  return Object.entries(found)
+    .map(([rule, nodes]) => ({ rule, ...A11Y_RULES[rule], nodes }))
+    .sort((a, b) => impactRank(b.impact) - impactRank(a.impact));
+}
+
+// 合并多次检查的违规，按 规则 + 节点选择器 去重
+export function mergeViolations(target: A11yViolation[], incoming: A11yViolation[]): void {
+  for (const v of incoming) {
+    const existing = target.find((t) => t.rule === v.rule);
+    if (!existing) {
+      target.push({ ...v, nodes: [...v.nodes] });
+      continue;
+    }
+    for (const node of v.nodes) {
+      if (!existing.nodes.some((n) => n.selector === node.selector)) existing.nodes.push(node);
+    }
+  }
+  target.sort((a, b) => impactRank(b.impact) - impactRank(a.impact));
+}
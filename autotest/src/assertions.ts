@@ -0,0 +1,274 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import type { Locator, Page } from "playwright";
+import { z } from "zod";
+import { A11Y_IMPACTS, A11yViolation, runA11yAudit, summarizeViolations, violationsAbove } from "./a11y.js";
+import { consoleErrors, failedRequests, PageLogs } from "./logs.js";
+import { collectPageMetrics, overBudget, PageMetrics, validateBudget } from "./perf.js";
+import { assertEvalAllowed } from "./policy.js";
+import { describeTarget, frameSchema, locate, locateTarget } from "./selectors.js";
+
+const ASSERT_KINDS = [
+  "visible", "hidden", "enabled", "checked", "focused",
+  "text_contains", "text_is", "count_is", "title_is", "title_contains", "url_contains", "url_is",
+  "attribute_is", "value_is", "css_is", "predicate",
+  "no_console_errors", "no_failed_requests", "request_made", "a11y", "perf_budget"
+] as const;
+
+// 需要目标元素（selector 或 ref）的断言类型
+const ELEMENT_KINDS = new Set<string>([
+  "visible", "hidden", "enabled", "checked", "focused", "text_contains", "text_is", "count_is", "attribute_is", "value_is", "css_is"
+]);
+
+// 默认只检查一次的断言类型：a11y 每次都要完整扫描页面，性能指标只增不减，重试代价高且通常无意义
+const SINGLE_CHECK_KINDS = new Set<string>(["a11y", "perf_budget"]);
+
+// 需要期望文本（text）的断言类型
+const TEXT_KINDS = new Set<string>(["text_contains", "text_is", "title_is", "title_contains", "url_contains", "url_is", "attribute_is", "value_is", "css_is"]);
+
+export const pageAssertSchema = z.object({
+  kind: z.enum(ASSERT_KINDS).default("visible"),
+  selector: z.string().optional(),
+  ref: z.string().optional(),
+  frame: frameSchema,
+  text: z.string().optional(),
+  // text 按正则匹配（*_is 与 *_contains 均为 RegExp.test）
+  regex: z.boolean().optional(),
+  flags: z.string().optional(),
+  count: z.number().optional(),
+  op: z.enum(["eq", "ne", "gt", "gte", "lt", "lte"]).optional(),
+  // attribute_is 的属性名 / css_is 的 CSS 属性名
+  name: z.string().optional(),
+  url: z.string().optional(),
+  status: z.number().optional(),
+  // predicate：JS 表达式，提供 selector/frame 时可通过 el 访问元素
+  expression: z.string().optional(),
+  not: z.boolean().optional(),
+  soft: z.boolean().optional(),
+  // a11y：允许的最高影响级别（未指定时不允许任何违规）与规则子集
+  maxImpact: z.enum(A11Y_IMPACTS).optional(),
+  rules: z.array(z.string()).optional(),
+  // perf_budget：指标上限（含），如 { "lcpMs": 2500, "scriptKb": 500 }
+  budget: z.record(z.number()).optional(),
+  timeoutMs: z.number().optional()
+});
+export type PageAssertInput = z.infer<typeof pageAssertSchema>;
+
+type Probe = { pass: boolean; actual: unknown };
+
+const OPS: Record<string, [string, (a: number, b: number) => boolean]> = {
+  eq: ["==", (a, b) => a === b],
+  ne: ["!=", (a, b) => a !== b],
+  gt: [">", (a, b) => a > b],
+  gte: [">=", (a, b) => a >= b],
+  lt: ["<", (a, b) => a < b],
+  lte: ["<=", (a, b) => a <= b]
+};
+
+// 带自动重试的断言：在 timeoutMs 内轮询，直到（取反后的）条件成立；返回描述文本，失败抛出 McpError
+// onAudit 接收 a11y 断言最后一次检查的全部违规，onMetrics 接收 perf_budget 采集的指标，供套件结果汇总
+export async function runAssertion(
+  page: Page,
+  input: PageAssertInput,
+  logs: () => PageLogs,
+  onAudit?: (violations: A11yViolation[]) => void,
+  onMetrics?: (metrics: PageMetrics) => void
+): Promise<string> {
+  const kind = input.kind;
+  if (ELEMENT_KINDS.has(kind) && !input.selector && !input.ref) {
+    throw new McpError(ErrorCode.InvalidParams, `${kind} 需要提供 selector 或 ref 参数`);
+  }
+  if (TEXT_KINDS.has(kind) && input.text === undefined) {
+    throw new McpError(ErrorCode.InvalidParams, `${kind} 需要提供 text 参数`);
+  }
+  if ((kind === "attribute_is" || kind === "css_is") && !input.name) {
+    throw new McpError(ErrorCode.InvalidParams, `${kind} 需要提供 name 参数`);
+  }
+  if (kind === "count_is" && input.count === undefined) {
+    throw new McpError(ErrorCode.InvalidParams, "count_is 需要提供 count 参数");
+  }
+  if (kind === "request_made" && !input.url) {
+    throw new McpError(ErrorCode.InvalidParams, "request_made 需要提供 url 参数");
+  }
+  if (kind === "predicate" && !input.expression) {
+    throw new McpError(ErrorCode.InvalidParams, "predicate 需要提供 expression 参数");
+  }
+  if (kind === "predicate") assertEvalAllowed(input.expression!, "page_assert");
+  if (kind === "perf_budget") validateBudget(input.budget ?? {});
+  let pattern: RegExp | null = null;
+  if (input.regex && input.text !== undefined) {
+    try {
+      // g/y 会让 lastIndex 在重试之间延续，导致结果交替变化
+      pattern = new RegExp(input.text, input.flags?.replace(/[gy]/g, ""));
+    } catch (e: any) {
+      throw new McpError(ErrorCode.InvalidParams, `无效的正则: ${e?.message ?? e}`);
+    }
+  }
+  const matchText = (actual: string | null, mode: "is" | "contains"): boolean => {
+    if (actual === null) return false;
+    if (pattern) return pattern.test(actual);
+    return mode === "is" ? actual === input.text : actual.includes(input.text!);
+  };
+
+  const el = (): Locator => locateTarget(page, input).first();
+  const probe = async (): Promise<Probe> => {
+    switch (kind) {
+      case "visible": {
+        const v = await el().isVisible();
+        return { pass: v, actual: v ? "visible" : "not visible" };
+      }
+      case "hidden": {
+        const v = await el().isVisible();
+        return { pass: !v, actual: v ? "visible" : "hidden" };
+      }
+      case "enabled": {
+        const v = await readElement(el(), (l) => l.isEnabled());
+        return { pass: v === true, actual: v === null ? "not found" : (v ? "enabled" : "disabled") };
+      }
+      case "checked": {
+        const v = await readElement(el(), (l) => l.isChecked());
+        return { pass: v === true, actual: v === null ? "not found" : (v ? "checked" : "unchecked") };
+      }
+      case "focused": {
+        const v = await readElement(el(), (l) => l.evaluate((node) => node === node.ownerDocument.activeElement));
+        return { pass: v === true, actual: v === null ? "not found" : (v ? "focused" : "not focused") };
+      }
+      case "text_contains":
+      case "text_is": {
+        const v = await readElement(el(), (l) => l.textContent());
+        const text = v === null ? null : (kind === "text_is" ? normalizeWhitespace(v) : v);
+        return { pass: matchText(text, kind === "text_is" ? "is" : "contains"), actual: text };
+      }
+      case "count_is": {
+        const count = await locateTarget(page, input).count();
+        return { pass: OPS[input.op ?? "eq"][1](count, input.count!), actual: count };
+      }
+      case "title_is":
+      case "title_contains": {
+        const title = await page.title();
+        return { pass: matchText(title, kind === "title_is" ? "is" : "contains"), actual: title };
+      }
+      case "url_is":
+      case "url_contains": {
+        const url = page.url();
+        return { pass: matchText(url, kind === "url_is" ? "is" : "contains"), actual: url };
+      }
+      case "attribute_is": {
+        const v = await readElement(el(), (l) => l.getAttribute(input.name!));
+        return { pass: matchText(v ?? null, "is"), actual: v };
+      }
+      case "value_is": {
+        const v = await readElement(el(), (l) => l.inputValue());
+        return { pass: matchText(v, "is"), actual: v };
+      }
+      case "css_is": {
+        const v = await readElement(el(), (l) => l.evaluate((node, prop) => getComputedStyle(node).getPropertyValue(prop as string).trim(), input.name));
+        return { pass: matchText(v, "is"), actual: v };
+      }
+      case "predicate": {
+        // 表达式在页面内捕获自身的异常：语法或运行错误立即失败，只有元素缺失与结果不满足时重试
+        const r = input.selector || input.ref || input.frame
+          ? await readElement((input.selector || input.ref ? locateTarget(page, input) : locate(page, ":root", input.frame)).first(), (l) => l.evaluate((node, expr) => {
+            try {
+              // eslint-disable-next-line no-new-func
+              return { value: Function("el", `"use strict"; return (${expr});`)(node) };
+            } catch (e) {
+              return { error: String(e) };
+            }
+          }, input.expression))
+          : await page.evaluate((expr) => {
+            try {
+              // eslint-disable-next-line no-new-func
+              return { value: Function(`"use strict"; return (${expr});`)() };
+            } catch (e) {
+              return { error: String(e) };
+            }
+          }, input.expression);
+        if (r && "error" in r) {
+          throw new McpError(ErrorCode.InvalidParams, `predicate 表达式执行出错: ${r.error}`);
+        }
+        const v = r?.value ?? null;
+        return { pass: !!v, actual: v };
+      }
+      case "no_console_errors": {
+        const errors = consoleErrors(logs());
+        const first = errors[0];
+        return { pass: errors.length === 0, actual: first ? `${errors.length} 条，首条: ${"text" in first ? first.text : first.message}` : "无" };
+      }
+      case "no_failed_requests": {
+        const failed = failedRequests(logs());
+        const first = failed[0];
+        return { pass: failed.length === 0, actual: first ? `${failed.length} 个，首个: ${first.method} ${first.url} (${first.failure ?? first.status})` : "无" };
+      }
+      case "request_made": {
+        const matches = logs().requests.filter((r) => r.url.includes(input.url!));
+        const pass = matches.some((r) => input.status === undefined || r.status === input.status);
+        return { pass, actual: matches.length ? matches.map((r) => r.status ?? r.failure).join(", ") : "无匹配请求" };
+      }
+      case "a11y": {
+        const root = locateTarget(page, { selector: input.selector ?? (input.ref ? undefined : ":root"), ref: input.ref, frame: input.frame }).first();
+        const violations = await runA11yAudit(root, { rules: input.rules });
+        audited = violations;
+        const blocking = violationsAbove(violations, input.maxImpact);
+        return { pass: blocking.length === 0, actual: blocking.length ? summarizeViolations(blocking) : "无" };
+      }
+      case "perf_budget": {
+        const metrics = await collectPageMetrics(page);
+        measured = metrics;
+        const over = overBudget(metrics, input.budget!);
+        return { pass: over.length === 0, actual: over.length ? over.join(", ") : "在预算内" };
+      }
+    }
+  };
+
+  let audited: A11yViolation[] | null = null;
+  let measured: PageMetrics | null = null;
+  const negate = !!input.not;
+  const deadline = Date.now() + (input.timeoutMs ?? (SINGLE_CHECK_KINDS.has(kind) ? 0 : 15000));
+  let last: Probe;
+  for (;;) {
+    last = await probe();
+    if (last.pass !== negate) break;
+    if (Date.now() >= deadline) {
+      if (audited) onAudit?.(audited);
+      if (measured) onMetrics?.(measured);
+      throw new McpError(ErrorCode.InvalidRequest, `断言失败 ${describe(input)}，实际: ${JSON.stringify(last.actual)}`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  }
+  if (audited) onAudit?.(audited);
+  if (measured) onMetrics?.(measured);
+  return `assert ${describe(input)}`;
+}
+
+// 元素不存在或读取失败时返回 null，由轮询继续重试
+async function readElement<T>(loc: Locator, read: (l: Locator) => Promise<T>): Promise<T | null> {
+  try {
+    if ((await loc.count()) === 0) return null;
+    return await read(loc);
+  } catch {
+    return null;
+  }
+}
+
+function normalizeWhitespace(s: string): string {
+  return s.replace(/\s+/g, " ").trim();
+}
+
+function describe(input: PageAssertInput): string {
+  const target = input.selector || input.ref ? ` '${describeTarget(input)}'` : "";
+  const expected = input.kind === "count_is"
+    ? ` ${OPS[input.op ?? "eq"][0]} ${input.count}`
+    : input.kind === "request_made"
+      ? ` '${input.url}'${input.status === undefined ? "" : ` status ${input.status}`}`
+      : input.kind === "predicate"
+        ? ` ${input.expression}`
+        : input.kind === "a11y"
+          ? ` <= ${input.maxImpact ?? "none"}`
+          : input.kind === "perf_budget"
+            ? ` ${Object.entries(input.budget ?? {}).map(([k, v]) => `${k}<=${v}`).join(", ")}`
+            : input.text !== undefined
+            ? ` ${input.regex ? `/${input.text}/${input.flags ?? ""}` : `'${input.text}'`}`
+            : "";
+  const name = input.name && (input.kind === "attribute_is" || input.kind === "css_is") ? `[${input.name}]` : "";
+  return `${input.not ? "not " : ""}${input.kind}${target}${name}${expected}`;
+}
@@ -0,0 +1,313 @@
+#!/usr/bin/env node
+import fs from "node:fs/promises";
+import path from "node:path";
+import { exportSpec, importSpec } from "./spec.js";
+import { buildHtmlReport, buildJUnit, ProjectSuiteResult, RunResults, SuiteEvent, writeAllureResults } from "./report.js";
+import { loadSuiteFile, suiteKind } from "./suitefile.js";
+import { reportStatus, ReportStatus } from "./history.js";
+
+const USAGE = `用法:
+  autotest run <套件文件或 glob>... [--grep <正则>] [--tag <标签>]... [--headed] [--retries <n>] [--workers <n>]
+               [--shard <i>/<n>] [--reporter list,junit,html,json,allure] [--output <目录>] [--update-snapshots]
+               [--history <文件> | --no-history]
+  autotest validate <套件文件或 glob>...
+  autotest export <plan-or-suite.json> [-o <out.spec.ts>] [--name <describe 名称>]
+  autotest import <file.spec.ts> [-o <out.json>]
+
+export/import 未指定 -o 时输出到标准输出；转换警告输出到标准错误。
+run 的报告写入 --output 目录（默认 autotest-report），有失败测试（隔离的测试除外）时退出码为 1；只含 macros/locators 的共享定义文件被跳过。
+validate 静态校验套件（展开 include，检查步骤参数、宏与定位器），有错误时退出码为 1。`;
+
+const REPORTERS = ["list", "junit", "html", "json", "allure"];
+
+// 不带取值的开关；可重复的参数收集为数组
+const BOOLEAN_FLAGS = new Set(["headed", "update-snapshots", "no-history"]);
+const REPEATABLE_FLAGS = new Set(["tag", "reporter"]);
+
+type ParsedArgs = { command?: string; positional: string[]; flags: Record<string, string | boolean | string[]> };
+
+class UsageError extends Error {}
+
+function parseArgs(argv: string[]): ParsedArgs {
+  const parsed: ParsedArgs = { command: argv[0], positional: [], flags: {} };
+  for (let i = 1; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "-o" || arg === "--out") {
+      parsed.flags.out = argv[++i];
+    } else if (arg.startsWith("--")) {
+      const [key, inline] = arg.slice(2).split("=", 2);
+      const value = inline ?? (BOOLEAN_FLAGS.has(key) ? true : (argv[i + 1] && !argv[i + 1].startsWith("-") ? argv[++i] : true));
+      if (REPEATABLE_FLAGS.has(key) && typeof value === "string") {
+        parsed.flags[key] = [...((parsed.flags[key] as string[] | undefined) ?? []), value];
+      } else {
+        parsed.flags[key] = value;
+      }
+    } else {
+      parsed.positional.push(arg);
+    }
+  }
+  return parsed;
+}
+
+function stringFlag(args: ParsedArgs, key: string): string | undefined {
+  const v = args.flags[key];
+  return typeof v === "string" ? v : undefined;
+}
+
+function intFlag(args: ParsedArgs, key: string, min: number): number | undefined {
+  const raw = stringFlag(args, key);
+  if (raw === undefined) return undefined;
+  const n = Number(raw);
+  if (!Number.isInteger(n) || n < min) throw new UsageError(`--${key} 需要不小于 ${min} 的整数: ${raw}`);
+  return n;
+}
+
+// 重复参数与逗号分隔的取值合并为列表
+function listFlag(args: ParsedArgs, key: string): string[] {
+  const v = args.flags[key];
+  const values = Array.isArray(v) ? v : (typeof v === "string" ? [v] : []);
+  return values.flatMap((x) => x.split(",")).map((x) => x.trim()).filter(Boolean);
+}
+
+async function writeOutput(out: string | boolean | string[] | undefined, content: string): Promise<void> {
+  if (typeof out !== "string") {
+    process.stdout.write(content.endsWith("\n") ? content : `${content}\n`);
+    return;
+  }
+  await fs.mkdir(path.dirname(path.resolve(out)), { recursive: true });
+  await fs.writeFile(out, content, "utf-8");
+  process.stderr.write(`已写入 ${out}\n`);
+}
+
+function reportWarnings(warnings: string[]): void {
+  for (const w of warnings) process.stderr.write(`警告: ${w}\n`);
+}
+
+// 展开 glob（支持 *、**、?），按路径排序；不含通配符的参数原样保留
+async function expandPatterns(patterns: string[]): Promise<string[]> {
+  const files = new Set<string>();
+  for (const pattern of patterns) {
+    const normalized = pattern.split(path.sep).join("/");
+    if (!/[*?]/.test(normalized)) {
+      files.add(normalized);
+      continue;
+    }
+    const segments = normalized.split("/");
+    const firstGlob = segments.findIndex((seg) => /[*?]/.test(seg));
+    const base = segments.slice(0, firstGlob).join("/") || ".";
+    const re = globToRegExp(normalized.startsWith("./") ? normalized.slice(2) : normalized);
+    let entries: string[];
+    try {
+      entries = await fs.readdir(base, { recursive: true });
+    } catch {
+      continue;
+    }
+    for (const entry of entries) {
+      const rel = (base === "." ? entry : `${base}/${entry}`).split(path.sep).join("/");
+      if (!rel.includes("node_modules/") && re.test(rel)) files.add(rel);
+    }
+  }
+  return Array.from(files).sort();
+}
+
+function globToRegExp(glob: string): RegExp {
+  let re = "";
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i];
+    if (ch === "*" && glob[i + 1] === "*") {
+      const slash = glob[i + 2] === "/";
+      re += slash ? "(?:.*/)?" : ".*";
+      i += slash ? 2 : 1;
+    } else if (ch === "*") {
+      re += "[^/]*";
+    } else if (ch === "?") {
+      re += "[^/]";
+    } else {
+      re += ch.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${re}$`);
+}
+
+// 执行一个或多个套件文件：复用 MCP 工具实现，汇总为按文件（及项目）分组的结果并输出报告
+async function runCommand(args: ParsedArgs): Promise<number> {
+  if (!args.positional.length) throw new UsageError("缺少套件文件");
+  const reporters = listFlag(args, "reporter");
+  if (!reporters.length) reporters.push("list");
+  const unknown = reporters.filter((r) => !REPORTERS.includes(r));
+  if (unknown.length) throw new UsageError(`未知 reporter: ${unknown.join(", ")}（可选 ${REPORTERS.join("、")}）`);
+  const shardRaw = stringFlag(args, "shard");
+  let shard: { index: number; total: number } | undefined;
+  if (shardRaw) {
+    const m = /^(\d+)\/(\d+)$/.exec(shardRaw);
+    if (!m || Number(m[1]) < 1 || Number(m[1]) > Number(m[2])) throw new UsageError(`--shard 格式应为 <i>/<n>（1 <= i <= n）: ${shardRaw}`);
+    shard = { index: Number(m[1]), total: Number(m[2]) };
+  }
+  const overrides = {
+    grep: stringFlag(args, "grep"),
+    tag: listFlag(args, "tag"),
+    retries: intFlag(args, "retries", 0),
+    workers: intFlag(args, "workers", 1),
+    headed: args.flags.headed === true,
+    updateSnapshots: args.flags["update-snapshots"] === true,
+    history: args.flags["no-history"] === true ? false as const : stringFlag(args, "history"),
+    shard
+  };
+  const outDir = stringFlag(args, "output") ?? "autotest-report";
+  const files = await expandPatterns(args.positional);
+  if (!files.length) throw new UsageError(`没有匹配的套件文件: ${args.positional.join(" ")}`);
+
+  // 按需加载工具实现（会加载 Playwright），export/import 不受影响
+  const { handlers, tools, setSuiteEventListener } = await import("./server.js");
+  const live = reporters.includes("list");
+  const marks: Record<ReportStatus, string> = { passed: "✓", failed: "✘", flaky: "±", quarantined: "◌" };
+  setSuiteEventListener((event: SuiteEvent) => {
+    if (event.type !== "testEnd") return;
+    const t = event.test;
+    const status = reportStatus(t);
+    if (live) {
+      const extra = [t.retries ? `重试 ${t.retries}` : "", t.worker ? `worker ${t.worker}` : ""].filter(Boolean).join(", ");
+      process.stdout.write(`  ${marks[status]} ${t.name} (${t.durationMs}ms${extra ? `, ${extra}` : ""})\n`);
+    } else {
+      process.stdout.write({ passed: ".", flaky: "±", quarantined: "q", failed: "F" }[status]);
+    }
+  });
+
+  const runs: ProjectSuiteResult[] = [];
+  const errors: string[] = [];
+  const started = Date.now();
+  for (const file of files) {
+    const label = path.relative(process.cwd(), path.resolve(file)).split(path.sep).join("/");
+    if (live) process.stdout.write(`\n${label}\n`);
+    try {
+      let suite = await loadSuiteFile(file);
+      if (suiteKind(suite) === "library") {
+        if (live) process.stdout.write("  （共享定义文件，已跳过）\n");
+        continue;
+      }
+      // 测试计划（{ steps }）按单个测试执行
+      if (Array.isArray(suite.steps)) {
+        suite = {
+          vars: suite.vars, continueOnError: suite.continueOnError, macros: suite.macros, locators: suite.locators,
+          tests: [{ name: path.basename(file, path.extname(file)), steps: suite.steps }]
+        };
+      }
+      const input = tools.test_suite_run.inputSchema.parse({
+        name: label,
+        ...suite,
+        ...(overrides.grep ? { grep: overrides.grep } : {}),
+        ...(overrides.tag.length ? { tag: overrides.tag } : {}),
+        ...(overrides.retries !== undefined ? { retries: overrides.retries } : {}),
+        ...(overrides.workers !== undefined ? { workers: overrides.workers } : {}),
+        ...(overrides.shard ? { shard: overrides.shard } : {}),
+        ...(overrides.headed ? { headless: false } : {}),
+        ...(overrides.updateSnapshots ? { updateBaselines: true } : {}),
+        ...(overrides.history !== undefined ? { history: overrides.history } : {}),
+        artifactsDir: suite.artifactsDir ?? path.join(outDir, "artifacts", label.replace(/[^a-zA-Z0-9-_.]+/g, "_")),
+        // 报告由命令行汇总后统一输出
+        junit: false, junitPath: undefined, htmlReport: undefined, allureDir: undefined
+      });
+      const result = await handlers.test_suite_run(input);
+      const data = JSON.parse(result.content[0].text!);
+      if (Array.isArray(data.projects)) {
+        runs.push(...data.projects.map((p: ProjectSuiteResult) => ({ ...p, project: `${label} / ${p.project}` })));
+      } else {
+        runs.push({ ...data, project: label });
+      }
+    } catch (e: any) {
+      errors.push(`${label}: ${e?.message ?? e}`);
+      process.stderr.write(`\n错误: ${label}: ${e?.message ?? e}\n`);
+    }
+  }
+  setSuiteEventListener(null);
+
+  const results: RunResults = { projects: runs, artifactsDir: outDir, junit: null };
+  const tests = runs.flatMap((r) => r.tests.map((t) => ({ file: r.project, t })));
+  const count = (status: ReportStatus) => tests.filter(({ t }) => reportStatus(t) === status).length;
+  const failed = tests.filter(({ t }) => reportStatus(t) === "failed");
+  const quarantined = tests.filter(({ t }) => reportStatus(t) === "quarantined");
+  process.stdout.write(`\n\n${tests.length} 个测试：${count("passed")} 通过，${failed.length} 失败，${count("flaky")} 不稳定${quarantined.length ? `，${quarantined.length} 隔离失败` : ""}（${Date.now() - started}ms）\n`);
+  for (const { file, t } of failed) process.stdout.write(`  ✘ ${file} › ${t.name}\n    ${t.error ?? "error"}\n`);
+  for (const { file, t } of quarantined) process.stdout.write(`  ◌ ${file} › ${t.name}（已隔离，不影响退出码）\n    ${t.error ?? "error"}\n`);
+
+  const written: string[] = [];
+  const write = async (name: string, content: string) => {
+    const file = path.join(outDir, name);
+    await fs.mkdir(outDir, { recursive: true });
+    await fs.writeFile(file, content, "utf-8");
+    written.push(file);
+  };
+  if (reporters.includes("junit")) await write("junit.xml", buildJUnit(results));
+  if (reporters.includes("json")) await write("results.json", JSON.stringify(results, null, 2));
+  if (reporters.includes("html")) await write("report.html", await buildHtmlReport(results, path.join(outDir, "report.html")));
+  if (reporters.includes("allure")) {
+    await writeAllureResults(results, path.join(outDir, "allure-results"));
+    written.push(path.join(outDir, "allure-results"));
+  }
+  for (const file of written) process.stdout.write(`报告: ${file}\n`);
+  return failed.length || errors.length ? 1 : 0;
+}
+
+// 静态校验套件文件，逐个输出错误与警告
+async function validateCommand(args: ParsedArgs): Promise<number> {
+  if (!args.positional.length) throw new UsageError("缺少套件文件");
+  const files = await expandPatterns(args.positional);
+  if (!files.length) throw new UsageError(`没有匹配的套件文件: ${args.positional.join(" ")}`);
+  const { handlers } = await import("./server.js");
+  let failed = 0;
+  for (const file of files) {
+    const result = JSON.parse((await handlers.suite_validate({ path: file })).content[0].text!);
+    if (result.ok) {
+      const summary = result.kind === "library" ? "共享定义" : `${result.tests} 个测试，${result.steps} 个步骤`;
+      process.stdout.write(`✓ ${file}（${summary}）\n`);
+    } else {
+      failed++;
+      process.stdout.write(`✘ ${file}\n`);
+    }
+    for (const e of result.errors) process.stdout.write(`    ${e.where}: ${e.message}\n`);
+    for (const w of result.warnings) process.stdout.write(`    警告 ${w.where}: ${w.message}\n`);
+  }
+  process.stdout.write(`\n${files.length} 个文件，${failed} 个有错误\n`);
+  return failed ? 1 : 0;
+}
+
+async function main(argv: string[]): Promise<number> {
+  const args = parseArgs(argv);
+  const input = args.positional[0];
+  switch (args.command) {
+    case "run":
+      return runCommand(args);
+    case "validate":
+      return validateCommand(args);
+    case "export": {
+      if (!input) break;
+      const data = await loadSuiteFile(input);
+      const name = stringFlag(args, "name") ?? path.basename(input, path.extname(input));
+      const { code, warnings } = exportSpec(data, { name });
+      reportWarnings(warnings);
+      await writeOutput(args.flags.out, code);
+      return 0;
+    }
+    case "import": {
+      if (!input) break;
+      const { suite, warnings } = importSpec(await fs.readFile(input, "utf-8"));
+      reportWarnings(warnings);
+      await writeOutput(args.flags.out, JSON.stringify(suite, null, 2));
+      return 0;
+    }
+  }
+  throw new UsageError("");
+}
+
+main(process.argv.slice(2)).then(
+  (code) => process.exit(code),
+  (e) => {
+    if (e instanceof UsageError) {
+      if (e.message) process.stderr.write(`错误: ${e.message}\n`);
+      process.stderr.write(`${USAGE}\n`);
+      process.exit(2);
+    }
+    process.stderr.write(`错误: ${e?.message ?? e}\n`);
+    process.exit(1);
+  }
+);
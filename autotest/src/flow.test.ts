@@ -0,0 +1,75 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { expandDataTests, filterTests, macroArguments, parseCsv, shardTests } from "./flow.js";
+
+test("parseCsv：表头、引号、转义引号、字段内换行与空行", () => {
+  const rows = parseCsv('\uFEFFuser, note\r\nalice,"a, b"\n\nbob,"say ""hi""\nbye"\n');
+  assert.deepEqual(rows, [
+    { user: "alice", note: "a, b" },
+    { user: "bob", note: 'say "hi"\nbye' }
+  ]);
+});
+
+test("parseCsv：缺少的字段为空字符串，只有表头时没有数据行", () => {
+  assert.deepEqual(parseCsv("a,b,c\n1"), [{ a: "1", b: "", c: "" }]);
+  assert.deepEqual(parseCsv("a,b\n"), []);
+  assert.deepEqual(parseCsv(""), []);
+});
+
+test("expandDataTests：每个数据行展开为一个用例，名称带行数据", async () => {
+  const tests = await expandDataTests([
+    { name: "plain" },
+    { name: "login", parameters: [{ user: "alice" }, { user: "bob", admin: true }] }
+  ]);
+  assert.deepEqual(tests.map((t) => t.name), ["plain", "login [user=alice]", "login [user=bob, admin=true]"]);
+  assert.deepEqual(tests[2].row, { user: "bob", admin: true });
+  assert.equal(tests[0].row, undefined);
+});
+
+test("expandDataTests：合并 parameters 与 dataFile，数据为空时报错", async () => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "autotest-flow-"));
+  try {
+    const csv = path.join(dir, "users.csv");
+    const json = path.join(dir, "users.json");
+    await fs.writeFile(csv, "user\ncarol\n");
+    await fs.writeFile(json, JSON.stringify([{ user: "dave" }]));
+    const tests = await expandDataTests([{ name: "t", parameters: [{ user: "alice" }], dataFile: csv }, { name: "j", dataFile: json }]);
+    assert.deepEqual(tests.map((t) => t.name), ["t [user=alice]", "t [user=carol]", "j [user=dave]"]);
+    await fs.writeFile(json, JSON.stringify({ user: "x" }));
+    await assert.rejects(expandDataTests([{ name: "j", dataFile: json }]), /应为对象数组/);
+    await assert.rejects(expandDataTests([{ name: "empty", parameters: [] }]), /数据为空/);
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+});
+
+test("shardTests：连续切分，余数分给前面的分片", () => {
+  const tests = [1, 2, 3, 4, 5, 6, 7];
+  const shards = [1, 2, 3].map((index) => shardTests(tests, { index, total: 3 }));
+  assert.deepEqual(shards, [[1, 2, 3], [4, 5], [6, 7]]);
+  assert.deepEqual(shardTests(tests), tests);
+  assert.deepEqual(shardTests([1], { index: 2, total: 2 }), []);
+  assert.throws(() => shardTests(tests, { index: 4, total: 3 }), /超出范围/);
+});
+
+test("filterTests：grep 匹配名称与 @标签，tag 忽略 @ 前缀", () => {
+  const tests = [
+    { name: "登录", tags: ["@smoke"] },
+    { name: "支付", tags: ["checkout"] },
+    { name: "退款" }
+  ];
+  assert.deepEqual(filterTests(tests, "支付|退款").map((t) => t.name), ["支付", "退款"]);
+  assert.deepEqual(filterTests(tests, "@smoke").map((t) => t.name), ["登录"]);
+  assert.deepEqual(filterTests(tests, undefined, ["smoke", "@checkout"]).map((t) => t.name), ["登录", "支付"]);
+  assert.throws(() => filterTests(tests, "("), /无效的 grep 正则/);
+});
+
+test("macroArguments：合并默认值，检查缺少与未声明的参数", () => {
+  const macro = { params: ["user", "password"], defaults: { password: "secret" }, steps: [] };
+  assert.deepEqual(macroArguments("login", macro, { user: "alice" }), { user: "alice", password: "secret" });
+  assert.throws(() => macroArguments("login", macro, {}), /缺少参数: user/);
+  assert.throws(() => macroArguments("login", macro, { user: "a", role: "admin" }), /未声明的参数: role/);
+});
@@ -0,0 +1,484 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import type { Page } from "playwright";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { z } from "zod";
+import { LocatorMap, resolveLocatorRefs } from "./locators.js";
+import { readablePath } from "./policy.js";
+import { frameSchema, locateTarget } from "./selectors.js";
+
+// 测试步骤：saveAs 将该步骤输出保存到运行期变量，arguments 中的字符串支持 ${var} / ${env.X} 插值
+export const toolStepSchema = z.object({
+  name: z.string(),
+  arguments: z.record(z.any()).optional(),
+  saveAs: z.string().optional()
+});
+export type ToolStep = z.infer<typeof toolStepSchema>;
+
+// 控制流条件：元素存在（selector/ref，visible 时要求可见）、当前 URL 匹配、或变量为真/等于 equals，三者取其一
+export const conditionSchema = z.object({
+  selector: z.string().optional(),
+  ref: z.string().optional(),
+  frame: frameSchema,
+  visible: z.boolean().optional(),
+  // 元素条件最多等待的毫秒数，默认立即判断
+  timeoutMs: z.number().optional(),
+  url: z.string().optional(),
+  // url 按正则匹配，否则按子串匹配
+  regex: z.boolean().optional(),
+  var: z.string().optional(),
+  equals: z.any().optional(),
+  not: z.boolean().optional()
+});
+export type Condition = z.infer<typeof conditionSchema>;
+
+// 嵌套的步骤体在执行时再逐步校验：递归 schema 无法转换为工具的 JSON Schema
+const bodySchema = z.array(z.any());
+
+const CONTROL_SCHEMAS = {
+  if: z.object({ if: conditionSchema, then: bodySchema, else: bodySchema.optional() }),
+  repeat: z.object({ repeat: z.union([z.number(), z.string()]), steps: bodySchema, indexAs: z.string().optional() }),
+  while: z.object({ while: conditionSchema, steps: bodySchema, maxIterations: z.number().int().positive().optional() }),
+  try: z.object({ try: bodySchema, catch: bodySchema.optional(), finally: bodySchema.optional(), errorAs: z.string().optional() }),
+  forEach: z.object({ forEach: z.union([z.array(z.any()), z.string()]), as: z.string().default("item"), indexAs: z.string().optional(), steps: bodySchema }),
+  macro: z.object({ macro: z.string(), with: z.record(z.any()).optional() })
+};
+type ControlKind = keyof typeof CONTROL_SCHEMAS;
+export type ControlStep = { [K in ControlKind]: z.infer<(typeof CONTROL_SCHEMAS)[K]> }[ControlKind];
+
+// 步骤：工具调用，或 if / repeat / while / try / forEach 控制流，或 macro 调用
+export const stepSchema = z.union([
+  toolStepSchema, CONTROL_SCHEMAS.if, CONTROL_SCHEMAS.repeat, CONTROL_SCHEMAS.while, CONTROL_SCHEMAS.try, CONTROL_SCHEMAS.forEach, CONTROL_SCHEMAS.macro
+]);
+
+// 宏：具名、带参数的步骤片段，以 { "macro": 名称, "with": { 参数 } } 调用；参数在宏内作为变量使用
+export const macroSchema = z.object({
+  description: z.string().optional(),
+  // 声明的参数：调用时须在 with 或 defaults 中提供，未声明的参数视为错误；不声明时不检查
+  params: z.array(z.string()).optional(),
+  defaults: z.record(z.any()).optional(),
+  steps: bodySchema
+});
+export type Macro = z.infer<typeof macroSchema>;
+
+// while 未指定 maxIterations 时的迭代上限，防止条件始终成立导致死循环
+export const DEFAULT_MAX_ITERATIONS = 100;
+
+export type FlowVars = Record<string, unknown>;
+
+export type FlowStepRecord = {
+  // 步骤路径：顶层为序号，嵌套如 3.then.1、4#2.1（第 2 次迭代）、5.catch.1
+  path: string;
+  name: string;
+  // 插值前的参数，避免把 ${env.X} 等敏感值写入结果
+  arguments?: Record<string, any>;
+  saveAs?: string;
+  startedAt: number;
+  durationMs: number;
+  value?: unknown;
+  softError?: string;
+  error?: unknown;
+};
+
+export type FlowRuntime = {
+  page: () => Page;
+  interpolate: (value: any, vars: FlowVars) => any;
+  runTool: (step: ToolStep, vars: FlowVars) => Promise<{ value: unknown; softError?: string }>;
+  onStep: (record: FlowStepRecord) => void;
+  continueOnError?: boolean;
+  // 超时或取消时中止：当前步骤立即以 signal.reason 失败，且不被 continueOnError / try 吞掉
+  signal?: AbortSignal;
+  macros?: Record<string, Macro>;
+  // 条件中 selector 的 "@名称" 按此解析
+  locators?: LocatorMap;
+};
+
+// 已通过 onStep 记录过的错误，向外层传播时不再重复记录
+const reported = new WeakSet<object>();
+
+// 各运行时当前正在展开的宏，用于发现递归调用
+const activeMacros = new WeakMap<FlowRuntime, string[]>();
+
+// 依次执行步骤（含嵌套控制流），返回软断言失败信息；
+// 失败步骤在 continueOnError 时继续，但在 try 块内总是交给 try 处理
+export async function runFlowSteps(steps: unknown[], vars: FlowVars, rt: FlowRuntime, prefix = "", inTry = false): Promise<string[]> {
+  const softErrors: string[] = [];
+  for (let i = 0; i < steps.length; i++) {
+    const at = prefix ? `${prefix}.${i + 1}` : String(i + 1);
+    let name = "step";
+    let args: Record<string, any> | undefined;
+    const startedAt = Date.now();
+    try {
+      rt.signal?.throwIfAborted();
+      const step = parseStep(steps[i], at);
+      if ("name" in step) {
+        name = step.name;
+        args = step.arguments;
+        const { value, softError } = await abortable(rt.runTool(step, vars), rt.signal);
+        if (softError) softErrors.push(softError);
+        rt.onStep({ path: at, name, arguments: args, saveAs: step.saveAs, value, softError, startedAt, durationMs: Date.now() - startedAt });
+      } else {
+        name = controlKind(step)!;
+        softErrors.push(...await runControl(step, at, vars, rt, inTry));
+      }
+    } catch (e: any) {
+      if (!(e && typeof e === "object" && reported.has(e))) {
+        if (e && typeof e === "object") reported.add(e);
+        rt.onStep({ path: at, name, arguments: args, error: e, startedAt, durationMs: Date.now() - startedAt });
+      }
+      if (inTry || !rt.continueOnError || rt.signal?.aborted) throw e;
+    }
+  }
+  return softErrors;
+}
+
+async function runControl(step: ControlStep, at: string, vars: FlowVars, rt: FlowRuntime, inTry: boolean): Promise<string[]> {
+  const softErrors: string[] = [];
+  const run = async (body: unknown[], prefix: string, nestedInTry = inTry) => {
+    softErrors.push(...await runFlowSteps(body, vars, rt, prefix, nestedInTry));
+  };
+  if ("if" in step) {
+    if (await abortable(checkCondition(step.if, vars, rt), rt.signal)) await run(step.then, `${at}.then`);
+    else if (step.else) await run(step.else, `${at}.else`);
+  } else if ("repeat" in step) {
+    const count = Number(rt.interpolate(step.repeat, vars));
+    if (!Number.isInteger(count) || count < 0) {
+      throw new McpError(ErrorCode.InvalidParams, `repeat 次数无效: ${step.repeat}`);
+    }
+    for (let n = 0; n < count; n++) {
+      if (step.indexAs) vars[step.indexAs] = n;
+      await run(step.steps, `${at}#${n + 1}`);
+    }
+  } else if ("while" in step) {
+    const max = step.maxIterations ?? DEFAULT_MAX_ITERATIONS;
+    let n = 0;
+    while (await abortable(checkCondition(step.while, vars, rt), rt.signal)) {
+      if (n >= max) {
+        throw new McpError(ErrorCode.InvalidRequest, `while 超过最大迭代次数 ${max}`);
+      }
+      n++;
+      await run(step.steps, `${at}#${n}`);
+    }
+  } else if ("macro" in step) {
+    const macro = rt.macros?.[step.macro];
+    if (!macro) {
+      throw new McpError(ErrorCode.InvalidParams, `未定义的宏: ${step.macro}`);
+    }
+    const stack = activeMacros.get(rt) ?? [];
+    if (stack.includes(step.macro)) {
+      throw new McpError(ErrorCode.InvalidRequest, `宏递归调用: ${[...stack, step.macro].join(" → ")}`);
+    }
+    const params = macroArguments(step.macro, macro, rt.interpolate(step.with ?? {}, vars));
+    // 参数在宏执行期间覆盖同名变量，结束后恢复；宏内 saveAs 保存的其它变量对调用方可见
+    const saved = Object.keys(params).map((k) => ({ k, had: Object.prototype.hasOwnProperty.call(vars, k), v: vars[k] }));
+    Object.assign(vars, params);
+    activeMacros.set(rt, [...stack, step.macro]);
+    try {
+      await run(macro.steps, `${at}.${step.macro}`);
+    } finally {
+      activeMacros.set(rt, stack);
+      for (const { k, had, v } of saved) {
+        if (had) vars[k] = v;
+        else delete vars[k];
+      }
+    }
+  } else if ("try" in step) {
+    try {
+      await run(step.try, `${at}.try`, true);
+    } catch (e: any) {
+      if (rt.signal?.aborted) throw e;
+      // 未提供 catch 时忽略失败（相当于可选步骤）
+      if (step.catch) {
+        if (step.errorAs) vars[step.errorAs] = e?.message ?? String(e);
+        await run(step.catch, `${at}.catch`);
+      }
+    } finally {
+      if (step.finally && !rt.signal?.aborted) await run(step.finally, `${at}.finally`);
+    }
+  } else {
+    const items = toArray(rt.interpolate(step.forEach, vars));
+    for (let n = 0; n < items.length; n++) {
+      vars[step.as] = items[n];
+      if (step.indexAs) vars[step.indexAs] = n;
+      await run(step.steps, `${at}#${n + 1}`);
+    }
+  }
+  return softErrors;
+}
+
+// ---------------------------------------------------------------------------
+// 中止：测试 / 套件超时与请求取消
+// ---------------------------------------------------------------------------
+
+// signal 触发时立即以其原因拒绝；被放弃的操作由调用方关闭页面或上下文来终止
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(signal.reason);
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(
+      (value) => { signal.removeEventListener("abort", onAbort); resolve(value); },
+      (e) => { signal.removeEventListener("abort", onAbort); reject(e); }
+    );
+  });
+}
+
+export type AbortScope = { signal: AbortSignal; dispose: () => void };
+
+// 创建随 parent 中止、并在 timeoutMs 后以超时错误中止的作用域；用完须 dispose 以清除定时器
+export function abortScope(parent: AbortSignal | undefined, timeoutMs: number | undefined, timeoutMessage: string): AbortScope {
+  const controller = new AbortController();
+  const onParentAbort = () => controller.abort(parent!.reason);
+  if (parent?.aborted) controller.abort(parent.reason);
+  else parent?.addEventListener("abort", onParentAbort, { once: true });
+  const timer = timeoutMs
+    ? setTimeout(() => controller.abort(new McpError(ErrorCode.RequestTimeout, `${timeoutMessage}（${timeoutMs}ms）`)), timeoutMs)
+    : undefined;
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      if (timer) clearTimeout(timer);
+      parent?.removeEventListener("abort", onParentAbort);
+    }
+  };
+}
+
+// 合并调用参数与默认值，并检查缺少或未声明的参数
+export function macroArguments(name: string, macro: Macro, given: Record<string, unknown>): Record<string, unknown> {
+  const params = { ...(macro.defaults ?? {}), ...given };
+  if (macro.params) {
+    const missing = macro.params.filter((p) => !(p in params));
+    if (missing.length) {
+      throw new McpError(ErrorCode.InvalidParams, `宏 ${name} 缺少参数: ${missing.join(", ")}`);
+    }
+    const declared = new Set([...macro.params, ...Object.keys(macro.defaults ?? {})]);
+    const unknown = Object.keys(given).filter((k) => !declared.has(k));
+    if (unknown.length) {
+      throw new McpError(ErrorCode.InvalidParams, `宏 ${name} 未声明的参数: ${unknown.join(", ")}`);
+    }
+  }
+  return params;
+}
+
+// 控制流步骤的嵌套步骤体及其路径后缀（循环体记为第 1 次迭代），供静态校验遍历；宏的步骤体由调用方单独校验
+export function stepBodies(step: ControlStep): Array<{ suffix: string; steps: unknown[] }> {
+  if ("if" in step) return [{ suffix: ".then", steps: step.then }, ...(step.else ? [{ suffix: ".else", steps: step.else }] : [])];
+  if ("try" in step) {
+    return [
+      { suffix: ".try", steps: step.try },
+      ...(step.catch ? [{ suffix: ".catch", steps: step.catch }] : []),
+      ...(step.finally ? [{ suffix: ".finally", steps: step.finally }] : [])
+    ];
+  }
+  if ("macro" in step) return [];
+  return [{ suffix: "#1", steps: step.steps }];
+}
+
+function controlKind(step: object): ControlKind | undefined {
+  return (Object.keys(CONTROL_SCHEMAS) as ControlKind[]).find((k) => k in step);
+}
+
+// 按步骤形态选用对应 schema 校验，使错误信息指向具体的控制流字段
+export function parseStep(raw: unknown, at: string): ToolStep | ControlStep {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new McpError(ErrorCode.InvalidParams, `步骤 ${at} 应为对象`);
+  }
+  const kind = "name" in raw ? undefined : controlKind(raw);
+  if (!("name" in raw) && !kind) {
+    throw new McpError(ErrorCode.InvalidParams, `步骤 ${at} 需要 name（工具名）、macro 或 if/repeat/while/try/forEach 之一`);
+  }
+  const parsed = (kind ? CONTROL_SCHEMAS[kind] : toolStepSchema).safeParse(raw);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new McpError(ErrorCode.InvalidParams, `步骤 ${at} 无效: ${issue.path.join(".") || kind} ${issue.message}`);
+  }
+  return parsed.data as ToolStep | ControlStep;
+}
+
+export async function checkCondition(raw: Condition, vars: FlowVars, rt: FlowRuntime): Promise<boolean> {
+  const cond: Condition = await resolveLocatorRefs(rt.interpolate(raw, vars), rt.locators, rt.page);
+  const given = [cond.selector !== undefined || cond.ref !== undefined, cond.url !== undefined, cond.var !== undefined].filter(Boolean).length;
+  if (given !== 1) {
+    throw new McpError(ErrorCode.InvalidParams, "条件需要且只能提供 selector/ref、url、var 之一");
+  }
+  let result: boolean;
+  if (cond.var !== undefined) {
+    const value = readVar(cond.var, vars);
+    result = cond.equals === undefined ? !!value : looseEquals(value, cond.equals);
+  } else if (cond.url !== undefined) {
+    const url = rt.page().url();
+    if (cond.regex) {
+      try {
+        result = new RegExp(cond.url).test(url);
+      } catch (e: any) {
+        throw new McpError(ErrorCode.InvalidParams, `无效的正则: ${e?.message ?? e}`);
+      }
+    } else {
+      result = url.includes(cond.url);
+    }
+  } else {
+    const el = locateTarget(rt.page(), cond).first();
+    if (cond.timeoutMs) {
+      await el.waitFor({ state: cond.visible ? "visible" : "attached", timeout: cond.timeoutMs }).catch(() => {/* 超时视为不满足 */});
+    }
+    result = cond.visible ? await el.isVisible() : (await el.count()) > 0;
+  }
+  return cond.not ? !result : result;
+}
+
+// 按 a.b 路径读取变量，不存在时返回 undefined（条件判断中视为假）
+function readVar(expr: string, vars: FlowVars): unknown {
+  let cur: any = vars;
+  for (const key of expr.split(".")) {
+    if (cur === null || cur === undefined) return undefined;
+    cur = cur[key];
+  }
+  return cur;
+}
+
+// 基本类型按字符串比较（CSV 数据行的值均为字符串），对象按 JSON 比较
+function looseEquals(actual: unknown, expected: unknown): boolean {
+  const isPrimitive = (v: unknown) => v === null || typeof v !== "object";
+  if (isPrimitive(actual) && isPrimitive(expected)) return String(actual) === String(expected);
+  return JSON.stringify(actual) === JSON.stringify(expected);
+}
+
+// forEach 的数据源：数组，或可解析为 JSON 数组的字符串（如 saveAs 保存的工具输出）
+function toArray(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value;
+  if (typeof value === "string") {
+    try {
+      const parsed = JSON.parse(value);
+      if (Array.isArray(parsed)) return parsed;
+    } catch {/* 非 JSON */}
+  }
+  throw new McpError(ErrorCode.InvalidParams, `forEach 需要数组，实际为: ${typeof value === "string" ? value : JSON.stringify(value)}`);
+}
+
+// ---------------------------------------------------------------------------
+// 数据驱动：parameters / dataFile 把一个测试展开为每个数据行一个用例
+// ---------------------------------------------------------------------------
+
+export type DataRow = Record<string, unknown>;
+
+export const dataTestFields = {
+  // 数据行：每行的键作为变量注入该用例
+  parameters: z.array(z.record(z.any())).optional(),
+  // CSV（首行为表头）或 JSON（对象数组）数据文件
+  dataFile: z.string().optional()
+};
+
+type DataDriven = { name: string; parameters?: DataRow[]; dataFile?: string };
+
+// 展开数据驱动的测试；未声明数据的测试原样保留。展开后的用例名带上行数据，row 为注入的变量
+export async function expandDataTests<T extends DataDriven>(tests: T[]): Promise<Array<T & { row?: DataRow }>> {
+  const out: Array<T & { row?: DataRow }> = [];
+  for (const test of tests) {
+    if (!test.parameters && !test.dataFile) {
+      out.push(test);
+      continue;
+    }
+    const rows = [...(test.parameters ?? []), ...(test.dataFile ? await loadDataFile(test.dataFile) : [])];
+    if (!rows.length) {
+      throw new McpError(ErrorCode.InvalidParams, `测试 '${test.name}' 的数据为空`);
+    }
+    for (const row of rows) {
+      out.push({ ...test, name: dataCaseName(test.name, row), row });
+    }
+  }
+  return out;
+}
+
+export function dataCaseName(name: string, row: DataRow): string {
+  const values = Object.entries(row).map(([k, v]) => {
+    const text = typeof v === "string" ? v : JSON.stringify(v);
+    return `${k}=${text.length > 40 ? `${text.slice(0, 37)}...` : text}`;
+  });
+  return `${name} [${values.join(", ")}]`;
+}
+
+export async function loadDataFile(file: string): Promise<DataRow[]> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(readablePath(file, "dataFile"), "utf-8");
+  } catch (e: any) {
+    if (e instanceof McpError) throw e;
+    throw new McpError(ErrorCode.InvalidParams, `无法读取数据文件 ${file}: ${e?.message ?? e}`);
+  }
+  if (path.extname(file).toLowerCase() === ".csv") return parseCsv(raw);
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch (e: any) {
+    throw new McpError(ErrorCode.InvalidParams, `数据文件 ${file} 不是有效的 JSON: ${e?.message ?? e}`);
+  }
+  if (!Array.isArray(data) || data.some((r) => !r || typeof r !== "object" || Array.isArray(r))) {
+    throw new McpError(ErrorCode.InvalidParams, `数据文件 ${file} 应为对象数组`);
+  }
+  return data as DataRow[];
+}
+
+// 解析 CSV（RFC 4180：双引号包裹字段，"" 表示引号，字段内可换行）；首行为表头，空行忽略
+export function parseCsv(text: string): DataRow[] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let quoted = false;
+  const src = text.replace(/^﻿/, "");
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      record.push(field); field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && src[i + 1] === "\n") i++;
+      record.push(field); field = "";
+      records.push(record); record = [];
+    } else {
+      field += ch;
+    }
+  }
+  if (field || record.length) { record.push(field); records.push(record); }
+  const rows = records.filter((r) => r.some((f) => f.trim() !== ""));
+  const [header, ...body] = rows;
+  if (!header) return [];
+  const keys = header.map((h) => h.trim());
+  return body.map((r) => Object.fromEntries(keys.map((k, i) => [k, r[i] ?? ""])));
+}
+
+// 按 grep（匹配名称与标签）与标签筛选测试
+export function filterTests<T extends { name: string; tags?: string[] }>(tests: T[], grep?: string, tags?: string[]): T[] {
+  let pattern: RegExp | null = null;
+  if (grep) {
+    try {
+      pattern = new RegExp(grep);
+    } catch (e: any) {
+      throw new McpError(ErrorCode.InvalidParams, `无效的 grep 正则: ${e?.message ?? e}`);
+    }
+  }
+  const normalize = (t: string) => t.replace(/^@/, "");
+  const wanted = new Set((tags ?? []).map(normalize));
+  return tests.filter((t) => {
+    const testTags = (t.tags ?? []).map(normalize);
+    if (pattern && !pattern.test([t.name, ...testTags.map((tag) => `@${tag}`)].join(" "))) return false;
+    return !wanted.size || testTags.some((tag) => wanted.has(tag));
+  });
+}
+
+// 按 shard（index 从 1 开始）把用例确定性地切分为连续区间，与 Playwright --shard 一致
+export function shardTests<T>(tests: T[], shard?: { index: number; total: number }): T[] {
+  if (!shard) return tests;
+  if (shard.index > shard.total) {
+    throw new McpError(ErrorCode.InvalidParams, `shard.index 超出范围: ${shard.index}/${shard.total}`);
+  }
+  const base = Math.floor(tests.length / shard.total);
+  const extra = tests.length % shard.total;
+  const start = (shard.index - 1) * base + Math.min(shard.index - 1, extra);
+  return tests.slice(start, start + base + (shard.index <= extra ? 1 : 0));
+}
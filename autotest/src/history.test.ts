@@ -0,0 +1,60 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { HistoryRun, HistoryTest, isQuarantined, reportStatus, summarizeHistory, testStatus } from "./history.js";
+
+const run = (day: number, tests: Array<Partial<HistoryTest> & { name: string }>, suite = "checkout"): HistoryRun => ({
+  runId: `run${day}`,
+  suite,
+  startedAt: `2026-01-${String(day).padStart(2, "0")}T00:00:00.000Z`,
+  durationMs: 0,
+  tests: tests.map((t) => ({ status: "passed", attempts: [true], durationMs: 100, ...t }))
+});
+
+test("testStatus / reportStatus：隔离的失败测试只在报告中单独显示", () => {
+  assert.equal(testStatus({ ok: true, flaky: false }), "passed");
+  assert.equal(testStatus({ ok: true, flaky: true }), "flaky");
+  assert.equal(testStatus({ ok: false, flaky: false }), "failed");
+  assert.equal(reportStatus({ ok: false, flaky: false, quarantined: true }), "quarantined");
+  assert.equal(reportStatus({ ok: true, flaky: true, quarantined: true }), "flaky");
+  assert.equal(reportStatus({ ok: false, flaky: false }), "failed");
+});
+
+test("summarizeHistory：按时间排序统计通过率、不稳定比例与最近结果", () => {
+  const runs = [
+    run(3, [{ name: "pay", status: "failed", error: "timeout", durationMs: 300 }, { name: "login" }]),
+    run(1, [{ name: "pay", status: "flaky", attempts: [false, true] }, { name: "login" }]),
+    run(2, [{ name: "pay" }, { name: "login" }]),
+    run(4, [{ name: "pay", durationMs: 300, quarantined: true }, { name: "login" }])
+  ];
+  const [pay, login] = summarizeHistory(runs);
+  assert.equal(pay.name, "pay");
+  assert.deepEqual(
+    { runs: pay.runs, passed: pay.passed, flaky: pay.flaky, failed: pay.failed, passRate: pay.passRate, flakyRate: pay.flakyRate },
+    { runs: 4, passed: 2, flaky: 1, failed: 1, passRate: 0.75, flakyRate: 0.25 }
+  );
+  assert.deepEqual(pay.recent, ["flaky", "passed", "failed", "passed"]);
+  assert.deepEqual(pay.durationTrend, { recentAvgMs: 300, previousAvgMs: 100, changePct: 200 });
+  assert.equal(pay.lastError, "timeout");
+  assert.equal(pay.quarantined, true);
+  assert.equal(login.passRate, 1);
+});
+
+test("summarizeHistory：按套件、测试名、时间与最近次数筛选", () => {
+  const runs = [
+    run(1, [{ name: "pay", status: "flaky" }, { name: "login" }]),
+    run(2, [{ name: "pay" }, { name: "login", status: "failed" }]),
+    run(3, [{ name: "search" }], "catalog")
+  ];
+  assert.deepEqual(summarizeHistory(runs, { suite: "catalog" }).map((s) => s.name), ["search"]);
+  assert.deepEqual(summarizeHistory(runs, { test: "/^log/" }).map((s) => s.name), ["login"]);
+  assert.deepEqual(summarizeHistory(runs, { flakyOnly: true }).map((s) => s.name), ["pay"]);
+  assert.equal(summarizeHistory(runs, { test: "pay", since: "2026-01-02" })[0].runs, 1);
+  assert.deepEqual(summarizeHistory(runs, { test: "login", lastRuns: 1 })[0].recent, ["failed"]);
+});
+
+test("isQuarantined：完整名称、数据驱动基础名与正则", () => {
+  assert.equal(isQuarantined("login [user=alice]", ["login"]), true);
+  assert.equal(isQuarantined("login page", ["login"]), false);
+  assert.equal(isQuarantined("pay", ["/^p/"]), true);
+  assert.equal(isQuarantined("pay", undefined), false);
+});
@@ -0,0 +1,211 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { randomUUID } from "node:crypto";
+import { suiteRuns, RunResults, TestResult } from "./report.js";
+
+// ---------------------------------------------------------------------------
+// 运行历史：每次 test_suite_run 的每个套件（或项目）追加一行 JSON（JSON Lines），供 test_history_query 统计
+// ---------------------------------------------------------------------------
+
+export type TestStatus = "passed" | "flaky" | "failed";
+
+export type HistoryTest = {
+  name: string;
+  status: TestStatus;
+  // 各次尝试是否通过
+  attempts: boolean[];
+  durationMs: number;
+  quarantined?: boolean;
+  error?: string;
+};
+
+export type HistoryRun = {
+  runId: string;
+  suite: string;
+  startedAt: string;
+  durationMs: number;
+  tests: HistoryTest[];
+};
+
+export type HistoryQuery = {
+  suite?: string;
+  // 测试名称子串，/.../ 为正则
+  test?: string;
+  // 只统计每个测试最近 N 次运行
+  lastRuns?: number;
+  since?: string;
+  flakyOnly?: boolean;
+};
+
+export type TestHistorySummary = {
+  suite: string;
+  name: string;
+  runs: number;
+  passed: number;
+  flaky: number;
+  failed: number;
+  // 最终通过的比例（含重试后通过）
+  passRate: number;
+  flakyRate: number;
+  avgDurationMs: number;
+  // 较近一半运行与较早一半运行的平均耗时变化（运行次数不足 4 次时为 null）
+  durationTrend: { recentAvgMs: number; previousAvgMs: number; changePct: number } | null;
+  // 最近的结果，从旧到新
+  recent: TestStatus[];
+  lastRunAt: string;
+  lastError?: string;
+  quarantined: boolean;
+};
+
+const RECENT_STATUSES = 10;
+
+export function defaultHistoryFile(baseDir: string): string {
+  return process.env.MCP_HISTORY_FILE ?? path.join(baseDir, "autotest-history.jsonl");
+}
+
+export function testStatus(t: Pick<TestResult, "ok" | "flaky">): TestStatus {
+  return t.flaky ? "flaky" : (t.ok ? "passed" : "failed");
+}
+
+// 报告与命令行输出中的状态：隔离的失败测试单独显示（历史中仍记为 failed，另带 quarantined 标记）
+export type ReportStatus = TestStatus | "quarantined";
+
+export function reportStatus(t: Pick<TestResult, "ok" | "flaky" | "quarantined">): ReportStatus {
+  const status = testStatus(t);
+  return status === "failed" && t.quarantined ? "quarantined" : status;
+}
+
+export function toHistoryRuns(results: RunResults, suiteName: string): HistoryRun[] {
+  return suiteRuns(results, suiteName).map(({ name, run }) => ({
+    runId: randomUUID(),
+    suite: name,
+    startedAt: run.startedAt,
+    durationMs: run.durationMs,
+    tests: run.tests.map((t) => ({
+      name: t.name,
+      status: testStatus(t),
+      attempts: t.attempts.map((a) => a.ok),
+      durationMs: t.durationMs,
+      ...(t.quarantined ? { quarantined: true } : {}),
+      ...(t.error ? { error: t.error } : {})
+    }))
+  }));
+}
+
+export async function appendHistory(file: string, runs: HistoryRun[]): Promise<void> {
+  if (!runs.length) return;
+  await fs.mkdir(path.dirname(path.resolve(file)), { recursive: true });
+  await fs.appendFile(file, runs.map((r) => `${JSON.stringify(r)}\n`).join(""), "utf-8");
+}
+
+// 读取历史文件；文件不存在时返回空数组，损坏的行被跳过
+export async function readHistory(file: string): Promise<HistoryRun[]> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(file, "utf-8");
+  } catch (e: any) {
+    if (e?.code === "ENOENT") return [];
+    throw e;
+  }
+  const runs: HistoryRun[] = [];
+  for (const line of raw.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const run = JSON.parse(line);
+      if (Array.isArray(run?.tests)) runs.push(run);
+    } catch {/* 写入中断的行 */}
+  }
+  return runs;
+}
+
+export function summarizeHistory(runs: HistoryRun[], query: HistoryQuery = {}): TestHistorySummary[] {
+  const since = query.since ? Date.parse(query.since) : NaN;
+  const match = textMatcher(query.test);
+  const byTest = new Map<string, Array<{ run: HistoryRun; test: HistoryTest }>>();
+  const ordered = [...runs].sort((a, b) => Date.parse(a.startedAt) - Date.parse(b.startedAt));
+  for (const run of ordered) {
+    if (query.suite && run.suite !== query.suite) continue;
+    if (!Number.isNaN(since) && Date.parse(run.startedAt) < since) continue;
+    for (const test of run.tests) {
+      if (!match(test.name)) continue;
+      const key = `${run.suite}\u0000${test.name}`;
+      if (!byTest.has(key)) byTest.set(key, []);
+      byTest.get(key)!.push({ run, test });
+    }
+  }
+  const summaries: TestHistorySummary[] = [];
+  for (const all of byTest.values()) {
+    const entries = query.lastRuns ? all.slice(-query.lastRuns) : all;
+    const count = (s: TestStatus) => entries.filter((e) => e.test.status === s).length;
+    const durations = entries.map((e) => e.test.durationMs);
+    const last = entries[entries.length - 1];
+    const lastFailure = [...entries].reverse().find((e) => e.test.error);
+    const summary: TestHistorySummary = {
+      suite: last.run.suite,
+      name: last.test.name,
+      runs: entries.length,
+      passed: count("passed"),
+      flaky: count("flaky"),
+      failed: count("failed"),
+      passRate: ratio(count("passed") + count("flaky"), entries.length),
+      flakyRate: ratio(count("flaky"), entries.length),
+      avgDurationMs: Math.round(average(durations)),
+      durationTrend: durationTrend(durations),
+      recent: entries.slice(-RECENT_STATUSES).map((e) => e.test.status),
+      lastRunAt: last.run.startedAt,
+      ...(lastFailure ? { lastError: lastFailure.test.error } : {}),
+      quarantined: !!last.test.quarantined
+    };
+    if (!query.flakyOnly || summary.flaky > 0) summaries.push(summary);
+  }
+  // 不稳定的在前，其次按通过率从低到高
+  return summaries.sort((a, b) => b.flakyRate - a.flakyRate || a.passRate - b.passRate || a.name.localeCompare(b.name));
+}
+
+function durationTrend(durations: number[]): TestHistorySummary["durationTrend"] {
+  if (durations.length < 4) return null;
+  const half = Math.floor(durations.length / 2);
+  const previousAvgMs = Math.round(average(durations.slice(0, half)));
+  const recentAvgMs = Math.round(average(durations.slice(half)));
+  const changePct = previousAvgMs ? Math.round((recentAvgMs - previousAvgMs) / previousAvgMs * 1000) / 10 : 0;
+  return { recentAvgMs, previousAvgMs, changePct };
+}
+
+function average(values: number[]): number {
+  return values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
+
+function ratio(n: number, total: number): number {
+  return total ? Math.round(n / total * 1000) / 1000 : 0;
+}
+
+// ---------------------------------------------------------------------------
+// 隔离（quarantine）：已知不稳定的测试照常执行，但失败不计入套件结果
+// ---------------------------------------------------------------------------
+
+// 条目为完整测试名、数据驱动测试的基础名（匹配其所有数据行）或 /正则/
+export function isQuarantined(name: string, quarantine: string[] | undefined): boolean {
+  if (!quarantine?.length) return false;
+  return quarantine.some((entry) => {
+    const regex = slashRegExp(entry);
+    return regex ? regex.test(name) : entry === name || (name.startsWith(`${entry} [`) && name.endsWith("]"));
+  });
+}
+
+function textMatcher(pattern: string | undefined): (name: string) => boolean {
+  if (!pattern) return () => true;
+  const regex = slashRegExp(pattern);
+  return regex ? (name) => regex.test(name) : (name) => name.includes(pattern);
+}
+
+// "/.../flags" 形式的条目解析为正则，其它返回 null
+function slashRegExp(entry: string): RegExp | null {
+  const m = /^\/(.*)\/([a-z]*)$/s.exec(entry);
+  if (!m) return null;
+  try {
+    return new RegExp(m[1], m[2]);
+  } catch (e: any) {
+    throw new McpError(ErrorCode.InvalidParams, `无效的正则 ${entry}: ${e?.message ?? e}`);
+  }
+}
@@ -0,0 +1,148 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { randomUUID } from "node:crypto";
+import http, { IncomingMessage, ServerResponse } from "node:http";
+
+// 每个 MCP 会话独立的 Server 实例及其资源释放函数（关闭该会话的浏览器）
+export type HttpSession = {
+  server: Server;
+  dispose: () => Promise<void>;
+};
+
+export type HttpTransportOptions = {
+  port: number;
+  path?: string;
+  maxSessions: number;
+  idleTimeoutMs: number;
+  createSession: () => HttpSession;
+  log?: (message: string) => void;
+};
+
+type SessionEntry = HttpSession & {
+  transport: StreamableHTTPServerTransport;
+  lastActive: number;
+};
+
+// 以 Streamable HTTP（POST + SSE 流）提供 MCP 服务；每个会话独立，空闲超时后自动回收
+export function startHttpTransport(options: HttpTransportOptions): http.Server {
+  const endpoint = options.path ?? "/mcp";
+  const log = options.log ?? (() => {});
+  const sessions = new Map<string, SessionEntry>();
+  // 已通过上限检查、尚未完成初始化的会话数
+  let pending = 0;
+
+  const closeSession = async (id: string, reason: string) => {
+    const entry = sessions.get(id);
+    if (!entry) return;
+    sessions.delete(id);
+    log(`session ${id} closed (${reason})`);
+    try { await entry.dispose(); } catch {/* ignore */}
+    try { await entry.transport.close(); } catch {/* ignore */}
+  };
+
+  const sweeper = setInterval(() => {
+    const now = Date.now();
+    for (const [id, entry] of sessions) {
+      if (now - entry.lastActive > options.idleTimeoutMs) {
+        void closeSession(id, "idle");
+      }
+    }
+  }, Math.min(options.idleTimeoutMs, 60_000));
+  sweeper.unref();
+
+  const httpServer = http.createServer(async (req, res) => {
+    try {
+      const url = new URL(req.url ?? "/", "http://localhost");
+      if (url.pathname !== endpoint) {
+        sendError(res, 404, "Not Found");
+        return;
+      }
+      const sessionId = headerValue(req, "mcp-session-id");
+      let body: unknown;
+      try {
+        body = req.method === "POST" ? await readJson(req) : undefined;
+      } catch {
+        sendError(res, 400, "Parse error");
+        return;
+      }
+      const existing = sessionId ? sessions.get(sessionId) : undefined;
+      if (existing) {
+        existing.lastActive = Date.now();
+        // DELETE 请求会关闭 transport，随后由 onclose 回收会话
+        await existing.transport.handleRequest(req, res, body);
+        return;
+      }
+      if (sessionId) {
+        sendError(res, 404, "Session not found");
+        return;
+      }
+      if (req.method !== "POST" || !isInitializeRequest(body)) {
+        sendError(res, 400, "Bad Request: 缺少有效的 mcp-session-id");
+        return;
+      }
+      if (sessions.size + pending >= options.maxSessions) {
+        sendError(res, 503, `会话数已达上限 (${options.maxSessions})`);
+        return;
+      }
+      // 先预留名额，并发的初始化请求不能同时通过上限检查；会话登记或初始化失败时释放
+      pending++;
+      let reserved = true;
+      const release = () => {
+        if (!reserved) return;
+        reserved = false;
+        pending--;
+      };
+      let session: HttpSession | undefined;
+      try {
+        session = options.createSession();
+        const transport = new StreamableHTTPServerTransport({
+          sessionIdGenerator: () => randomUUID(),
+          onsessioninitialized: (id) => {
+            release();
+            sessions.set(id, { ...session!, transport, lastActive: Date.now() });
+            log(`session ${id} opened (${sessions.size}/${options.maxSessions})`);
+          }
+        });
+        transport.onclose = () => {
+          release();
+          if (transport.sessionId) void closeSession(transport.sessionId, "transport closed");
+        };
+        await session.server.connect(transport);
+        await transport.handleRequest(req, res, body);
+      } finally {
+        if (reserved) {
+          release();
+          if (session) void session.dispose().catch(() => {});
+        }
+      }
+    } catch (e: any) {
+      log(`request failed: ${e?.message ?? e}`);
+      if (!res.headersSent) sendError(res, 500, "Internal Server Error");
+    }
+  });
+
+  httpServer.on("close", () => {
+    clearInterval(sweeper);
+    for (const id of Array.from(sessions.keys())) void closeSession(id, "shutdown");
+  });
+  httpServer.listen(options.port);
+  return httpServer;
+}
+
+function headerValue(req: IncomingMessage, name: string): string | undefined {
+  const v = req.headers[name];
+  return Array.isArray(v) ? v[0] : v;
+}
+
+async function readJson(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  const raw = Buffer.concat(chunks).toString("utf-8");
+  return raw ? JSON.parse(raw) : undefined;
+}
+
+function sendError(res: ServerResponse, status: number, message: string): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify({ jsonrpc: "2.0", error: { code: -32000, message }, id: null }));
+}
@@ -0,0 +1,68 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import type { Page } from "playwright";
+import { z } from "zod";
+import { FrameTarget, locate } from "./selectors.js";
+
+// 具名定位器（page object）：步骤中以 "@名称" 代替选择器。
+// 取值为单个选择器，或按顺序尝试的选择器数组（第一个为首选，其余为备选）
+export const locatorsSchema = z.record(z.union([z.string(), z.array(z.string()).min(1)]));
+export type LocatorMap = z.infer<typeof locatorsSchema>;
+
+// 可以引用具名定位器的参数：selector，以及 page_drag 的 source / target
+export const SELECTOR_KEYS = ["selector", "source", "target"] as const;
+
+// 首选与备选都不存在时，等待任一出现的最长时间
+const FALLBACK_WAIT_MS = 5000;
+
+export function locatorName(value: unknown): string | undefined {
+  const m = typeof value === "string" ? /^@(\S+)$/.exec(value) : null;
+  return m ? m[1] : undefined;
+}
+
+export function locatorCandidates(name: string, locators: LocatorMap | undefined): string[] {
+  const entry = locators?.[name];
+  if (entry === undefined) {
+    const defined = Object.keys(locators ?? {});
+    throw new McpError(ErrorCode.InvalidParams, `未定义的定位器 @${name}${defined.length ? `（已定义：${defined.join(", ")}）` : ""}`);
+  }
+  return typeof entry === "string" ? [entry] : entry;
+}
+
+// 把参数中的 "@名称" 替换为实际选择器：有备选时按顺序取第一个在页面上存在的
+export async function resolveLocatorRefs<T extends Record<string, any>>(args: T, locators: LocatorMap | undefined, page: () => Page | null): Promise<T> {
+  const out: Record<string, any> = { ...args };
+  for (const key of SELECTOR_KEYS) {
+    const name = locatorName(args[key]);
+    if (name === undefined) continue;
+    out[key] = await pickCandidate(locatorCandidates(name, locators), page, args.frame);
+  }
+  return out as T;
+}
+
+// 静态替换为首选选择器（suite_validate、spec_export 使用），不访问页面
+export function primarySelectors<T extends Record<string, any>>(args: T, locators: LocatorMap | undefined): T {
+  const out: Record<string, any> = { ...args };
+  for (const key of SELECTOR_KEYS) {
+    const name = locatorName(args[key]);
+    if (name !== undefined) out[key] = locatorCandidates(name, locators)[0];
+  }
+  return out as T;
+}
+
+// 都不存在时等待任一出现后再按顺序选取；仍没有则返回首选，由工具按自身的超时报错
+async function pickCandidate(candidates: string[], currentPage: () => Page | null, frame?: FrameTarget): Promise<string> {
+  if (candidates.length === 1) return candidates[0];
+  const page = currentPage();
+  if (!page) return candidates[0];
+  const present = async () => {
+    for (const candidate of candidates) {
+      if (await locate(page, candidate, frame).count() > 0) return candidate;
+    }
+    return undefined;
+  };
+  const found = await present();
+  if (found) return found;
+  const any = candidates.map((c) => locate(page, c, frame)).reduce((a, b) => a.or(b));
+  await any.first().waitFor({ state: "attached", timeout: FALLBACK_WAIT_MS }).catch(() => {/* 都未出现 */});
+  return (await present()) ?? candidates[0];
+}
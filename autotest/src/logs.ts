@@ -0,0 +1,69 @@
+import type { Page } from "playwright";
+
+// 每类日志最多保留的条数，避免长时间运行的页面占用过多内存
+const MAX_ENTRIES = 1000;
+
+export type ConsoleEntry = { type: string; text: string; location?: string; time: number };
+export type PageErrorEntry = { message: string; stack?: string; time: number };
+export type RequestEntry = { url: string; method: string; resourceType: string; status?: number; failure?: string; time: number };
+export type DialogEntry = { type: string; message: string; action: string; time: number };
+
+export type PageLogs = {
+  console: ConsoleEntry[];
+  errors: PageErrorEntry[];
+  requests: RequestEntry[];
+  dialogs: DialogEntry[];
+};
+
+export function createPageLogs(): PageLogs {
+  return { console: [], errors: [], requests: [], dialogs: [] };
+}
+
+function push<T>(list: T[], entry: T): void {
+  list.push(entry);
+  if (list.length > MAX_ENTRIES) list.shift();
+}
+
+// 监听页面的 console、未捕获异常、请求响应与失败请求
+export function attachPageLogCollectors(page: Page, logs: PageLogs): void {
+  page.on("console", (msg) => {
+    const loc = msg.location();
+    push(logs.console, {
+      type: msg.type(),
+      text: msg.text(),
+      location: loc?.url ? `${loc.url}:${loc.lineNumber}:${loc.columnNumber}` : undefined,
+      time: Date.now()
+    });
+  });
+  page.on("pageerror", (err) => {
+    push(logs.errors, { message: err.message, stack: err.stack, time: Date.now() });
+  });
+  page.on("response", (res) => {
+    const req = res.request();
+    push(logs.requests, { url: req.url(), method: req.method(), resourceType: req.resourceType(), status: res.status(), time: Date.now() });
+  });
+  page.on("requestfailed", (req) => {
+    push(logs.requests, { url: req.url(), method: req.method(), resourceType: req.resourceType(), failure: req.failure()?.errorText ?? "failed", time: Date.now() });
+  });
+}
+
+export function recordDialog(logs: PageLogs, entry: Omit<DialogEntry, "time">): void {
+  push(logs.dialogs, { ...entry, time: Date.now() });
+}
+
+export function clearPageLogs(logs: PageLogs): void {
+  logs.console.length = 0;
+  logs.errors.length = 0;
+  logs.requests.length = 0;
+  logs.dialogs.length = 0;
+}
+
+// console.error 与未捕获异常都视为错误
+export function consoleErrors(logs: PageLogs): Array<ConsoleEntry | PageErrorEntry> {
+  return [...logs.console.filter((c) => c.type === "error"), ...logs.errors];
+}
+
+// 网络层失败或 HTTP 4xx/5xx 的请求
+export function failedRequests(logs: PageLogs): RequestEntry[] {
+  return logs.requests.filter((r) => r.failure !== undefined || (r.status !== undefined && r.status >= 400));
+}
@@ -0,0 +1,308 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import type { BrowserContext, CDPSession, Page } from "playwright";
+import { z } from "zod";
+
+// ---------------------------------------------------------------------------
+// 限速：网络预设（数值同 Chrome DevTools）与 CPU 降速倍数，通过 CDP 实现，仅支持 chromium
+// ---------------------------------------------------------------------------
+
+type NetworkConditions = { offline: boolean; latency: number; downloadThroughput: number; uploadThroughput: number };
+
+// 吞吐量单位为字节/秒
+const NETWORK_PRESETS: Record<string, NetworkConditions> = {
+  "Slow 3G": { offline: false, latency: 2000, downloadThroughput: 50_000, uploadThroughput: 50_000 },
+  "Fast 3G": { offline: false, latency: 562.5, downloadThroughput: 180_000, uploadThroughput: 84_375 },
+  "Fast 4G": { offline: false, latency: 165, downloadThroughput: 1_012_500, uploadThroughput: 168_750 },
+  "Offline": { offline: true, latency: 0, downloadThroughput: 0, uploadThroughput: 0 }
+};
+
+export const NETWORK_PRESET_NAMES = Object.keys(NETWORK_PRESETS) as [string, ...string[]];
+
+export const throttlingSchema = z.object({
+  // 预设名，或自定义带宽（kbit/s）与往返延迟
+  network: z.union([
+    z.enum(NETWORK_PRESET_NAMES),
+    z.object({ downloadKbps: z.number().positive(), uploadKbps: z.number().positive(), latencyMs: z.number().min(0) })
+  ]).optional(),
+  // CPU 降速倍数，如 4 表示 4 倍慢
+  cpu: z.number().min(1).optional()
+});
+export type Throttling = z.infer<typeof throttlingSchema>;
+
+// 已应用的限速与对应 CDP 会话（会话断开时限速失效，需保持引用）
+const throttled = new WeakMap<Page, { throttling: Throttling; session: CDPSession }>();
+
+export function assertThrottlingSupported(browserName: string | undefined): void {
+  if (browserName !== "chromium") {
+    throw new McpError(ErrorCode.InvalidParams, `网络与 CPU 限速仅支持 chromium（当前: ${browserName ?? "未知"}）`);
+  }
+}
+
+// 对上下文中现有及之后打开的标签页（含弹窗）应用限速
+export async function throttleContext(context: BrowserContext, throttling: Throttling): Promise<void> {
+  assertThrottlingSupported(context.browser()?.browserType().name());
+  context.on("page", (page) => {
+    throttlePage(page, throttling).catch(() => {/* 页面已关闭 */});
+  });
+  await Promise.all(context.pages().map((page) => throttlePage(page, throttling)));
+}
+
+export async function throttlePage(page: Page, throttling: Throttling): Promise<void> {
+  if (throttled.get(page)?.throttling === throttling) return;
+  const session = await page.context().newCDPSession(page);
+  if (throttling.network) {
+    const conditions = typeof throttling.network === "string"
+      ? NETWORK_PRESETS[throttling.network]
+      : {
+        offline: false,
+        latency: throttling.network.latencyMs,
+        downloadThroughput: throttling.network.downloadKbps * 1000 / 8,
+        uploadThroughput: throttling.network.uploadKbps * 1000 / 8
+      };
+    await session.send("Network.enable");
+    await session.send("Network.emulateNetworkConditions", conditions);
+  }
+  if (throttling.cpu) {
+    await session.send("Emulation.setCPUThrottlingRate", { rate: throttling.cpu });
+  }
+  throttled.set(page, { throttling, session });
+}
+
+export function describeThrottling(throttling: Throttling): string {
+  const network = typeof throttling.network === "string"
+    ? throttling.network
+    : throttling.network ? `${throttling.network.downloadKbps}/${throttling.network.uploadKbps}kbps ${throttling.network.latencyMs}ms` : "";
+  return [network, throttling.cpu ? `${throttling.cpu}x CPU` : ""].filter(Boolean).join(", ");
+}
+
+// ---------------------------------------------------------------------------
+// 指标采集
+// ---------------------------------------------------------------------------
+
+export const RESOURCE_TYPES = ["document", "script", "stylesheet", "image", "font", "fetch", "other"] as const;
+export type ResourceType = typeof RESOURCE_TYPES[number];
+
+type ResourceTotals = { count: number; transferBytes: number; decodedBytes: number };
+
+export type PageMetrics = {
+  url: string;
+  collectedAt: string;
+  // 相对导航开始的毫秒数
+  navigation: { ttfbMs: number; domContentLoadedMs: number | null; loadMs: number | null } | null;
+  // 浏览器不支持或尚未发生时为 null（如 INP 需要用户交互）
+  webVitals: { fcpMs: number | null; lcpMs: number | null; cls: number | null; inpMs: number | null; tbtMs: number | null };
+  // transferBytes 为网络传输大小（压缩后，命中缓存为 0）；跨域资源未设置 Timing-Allow-Origin 时大小为 0
+  resources: ResourceTotals & { byType: Record<ResourceType, ResourceTotals> };
+  jsHeap: { usedBytes: number; totalBytes: number } | null;
+  throttling?: Throttling;
+  // 按传输大小排序的最大资源（page_metrics 的 topResources）
+  largest?: Array<{ url: string; type: ResourceType; transferBytes: number; decodedBytes: number }>;
+};
+
+// 观察脚本写入 window.__mcpPerf 的状态；longTasks 为 [开始时间, 时长]
+type PerfObserverState = { lcp: number | null; cls: number; inp: number | null; longTasks: Array<[number, number]> };
+type PerfWindow = Window & { __mcpPerf?: PerfObserverState };
+// Chromium 的非标准 performance.memory
+type ChromiumPerformance = Performance & { memory?: { usedJSHeapSize: number; totalJSHeapSize: number } };
+
+// 注入每个页面的观察脚本：在页面脚本之前注册 PerformanceObserver，记录 LCP、CLS、交互耗时与长任务
+const OBSERVER_SCRIPT = `(() => {
+  if (window.top !== window || window.__mcpPerf) return;
+  const perf = window.__mcpPerf = { lcp: null, cls: 0, inp: null, longTasks: [] };
+  const observe = (type, onEntry, options) => {
+    try {
+      new PerformanceObserver((list) => list.getEntries().forEach(onEntry)).observe(Object.assign({ type, buffered: true }, options));
+    } catch (e) { /* 浏览器不支持该类型 */ }
+  };
+  observe("largest-contentful-paint", (e) => { perf.lcp = e.renderTime || e.loadTime || e.startTime; });
+  // CLS：按会话窗口（相邻偏移间隔 < 1s，窗口 < 5s）累计，取最大窗口
+  let windowValue = 0, windowStart = 0, lastShift = 0;
+  observe("layout-shift", (e) => {
+    if (e.hadRecentInput) return;
+    if (windowValue && e.startTime - lastShift < 1000 && e.startTime - windowStart < 5000) {
+      windowValue += e.value;
+    } else {
+      windowValue = e.value;
+      windowStart = e.startTime;
+    }
+    lastShift = e.startTime;
+    perf.cls = Math.max(perf.cls, windowValue);
+  });
+  // INP：取最慢的一次交互（交互次数较少时与 p98 一致）
+  const onInteraction = (e) => { if (e.interactionId || e.entryType === "first-input") perf.inp = Math.max(perf.inp || 0, e.duration); };
+  observe("event", onInteraction, { durationThreshold: 16 });
+  observe("first-input", onInteraction);
+  observe("longtask", (e) => { perf.longTasks.push([e.startTime, e.duration]); });
+})();`;
+
+export async function installPerfObserver(context: BrowserContext): Promise<void> {
+  await context.addInitScript({ content: OBSERVER_SCRIPT });
+}
+
+type RawMetrics = {
+  navigation: { ttfb: number; dcl: number; load: number; transferSize: number; decodedBodySize: number } | null;
+  fcp: number | null;
+  lcp: number | null;
+  cls: number | null;
+  inp: number | null;
+  tbt: number | null;
+  resources: Array<{ name: string; initiatorType: string; transferSize: number; decodedBodySize: number }>;
+  heap: { used: number; total: number } | null;
+};
+
+export async function collectPageMetrics(page: Page, options: { topResources?: number } = {}): Promise<PageMetrics> {
+  // 不使用具名内部函数，避免开发模式（tsx）注入的 __name 辅助函数在页面中未定义
+  const raw: RawMetrics = await page.evaluate(() => {
+    const perf = (window as PerfWindow).__mcpPerf;
+    const nav = performance.getEntriesByType("navigation")[0] as PerformanceNavigationTiming | undefined;
+    const paint = performance.getEntriesByName("first-contentful-paint")[0];
+    const fcp = paint ? paint.startTime : null;
+    const memory = (performance as ChromiumPerformance).memory;
+    return {
+      navigation: nav ? {
+        ttfb: nav.responseStart,
+        dcl: nav.domContentLoadedEventEnd,
+        load: nav.loadEventEnd,
+        transferSize: nav.transferSize,
+        decodedBodySize: nav.decodedBodySize
+      } : null,
+      fcp,
+      lcp: perf ? perf.lcp : null,
+      cls: perf ? perf.cls : null,
+      inp: perf ? perf.inp : null,
+      // TBT：FCP 之后每个长任务超出 50ms 的部分之和
+      tbt: perf && fcp !== null
+        ? perf.longTasks.reduce((sum, t) => (t[0] + t[1] > fcp ? sum + Math.max(0, t[1] - 50) : sum), 0)
+        : null,
+      resources: (performance.getEntriesByType("resource") as PerformanceResourceTiming[]).map((r) => ({
+        name: r.name, initiatorType: r.initiatorType, transferSize: r.transferSize, decodedBodySize: r.decodedBodySize
+      })),
+      heap: memory ? { used: memory.usedJSHeapSize, total: memory.totalJSHeapSize } : null
+    };
+  });
+
+  const byType = Object.fromEntries(RESOURCE_TYPES.map((t) => [t, { count: 0, transferBytes: 0, decodedBytes: 0 }])) as Record<ResourceType, ResourceTotals>;
+  const entries = raw.resources.map((r) => ({ url: r.name, type: resourceType(r.name, r.initiatorType), transferBytes: r.transferSize, decodedBytes: r.decodedBodySize }));
+  if (raw.navigation) {
+    entries.unshift({ url: page.url(), type: "document", transferBytes: raw.navigation.transferSize, decodedBytes: raw.navigation.decodedBodySize });
+  }
+  for (const e of entries) {
+    byType[e.type].count++;
+    byType[e.type].transferBytes += e.transferBytes;
+    byType[e.type].decodedBytes += e.decodedBytes;
+  }
+  const totals = Object.values(byType).reduce(
+    (acc, t) => ({ count: acc.count + t.count, transferBytes: acc.transferBytes + t.transferBytes, decodedBytes: acc.decodedBytes + t.decodedBytes }),
+    { count: 0, transferBytes: 0, decodedBytes: 0 }
+  );
+  const applied = throttled.get(page)?.throttling;
+  return {
+    url: page.url(),
+    collectedAt: new Date().toISOString(),
+    navigation: raw.navigation ? {
+      ttfbMs: ms(raw.navigation.ttfb)!,
+      // 事件尚未结束时为 0
+      domContentLoadedMs: raw.navigation.dcl ? ms(raw.navigation.dcl) : null,
+      loadMs: raw.navigation.load ? ms(raw.navigation.load) : null
+    } : null,
+    webVitals: {
+      fcpMs: ms(raw.fcp),
+      lcpMs: ms(raw.lcp),
+      cls: raw.cls === null ? null : Math.round(raw.cls * 10000) / 10000,
+      inpMs: ms(raw.inp),
+      tbtMs: ms(raw.tbt)
+    },
+    resources: { ...totals, byType },
+    jsHeap: (await heapUsage(page)) ?? (raw.heap ? { usedBytes: raw.heap.used, totalBytes: raw.heap.total } : null),
+    ...(applied ? { throttling: applied } : {}),
+    ...(options.topResources ? { largest: entries.sort((a, b) => b.transferBytes - a.transferBytes).slice(0, options.topResources) } : {})
+  };
+}
+
+// chromium 通过 CDP 读取精确的堆用量（performance.memory 的值经过量化）
+async function heapUsage(page: Page): Promise<PageMetrics["jsHeap"]> {
+  if (page.context().browser()?.browserType().name() !== "chromium") return null;
+  let session: CDPSession | null = null;
+  try {
+    session = await page.context().newCDPSession(page);
+    const { usedSize, totalSize } = await session.send("Runtime.getHeapUsage");
+    return { usedBytes: usedSize, totalBytes: totalSize };
+  } catch {
+    return null;
+  } finally {
+    await session?.detach().catch(() => {/* 已断开 */});
+  }
+}
+
+function resourceType(url: string, initiatorType: string): ResourceType {
+  let pathname = "";
+  try { pathname = new URL(url).pathname.toLowerCase(); } catch { /* 非标准 URL */ }
+  if (/\.m?js$/.test(pathname)) return "script";
+  if (/\.css$/.test(pathname)) return "stylesheet";
+  if (/\.(png|jpe?g|gif|webp|avif|svg|ico|bmp)$/.test(pathname)) return "image";
+  if (/\.(woff2?|ttf|otf|eot)$/.test(pathname)) return "font";
+  if (initiatorType === "script") return "script";
+  if (initiatorType === "img" || initiatorType === "image") return "image";
+  if (initiatorType === "xmlhttprequest" || initiatorType === "fetch" || initiatorType === "beacon") return "fetch";
+  if (initiatorType === "iframe" || initiatorType === "navigation") return "document";
+  return "other";
+}
+
+function ms(value: number | null | undefined): number | null {
+  return value === null || value === undefined ? null : Math.round(value);
+}
+
+// ---------------------------------------------------------------------------
+// 预算：指标名 -> 上限（含），用于 page_assert 的 perf_budget
+// ---------------------------------------------------------------------------
+
+const KB = 1024;
+
+export const BUDGET_METRICS: Record<string, (m: PageMetrics) => number | null> = {
+  ttfbMs: (m) => m.navigation?.ttfbMs ?? null,
+  domContentLoadedMs: (m) => m.navigation?.domContentLoadedMs ?? null,
+  loadMs: (m) => m.navigation?.loadMs ?? null,
+  fcpMs: (m) => m.webVitals.fcpMs,
+  lcpMs: (m) => m.webVitals.lcpMs,
+  cls: (m) => m.webVitals.cls,
+  inpMs: (m) => m.webVitals.inpMs,
+  tbtMs: (m) => m.webVitals.tbtMs,
+  requests: (m) => m.resources.count,
+  totalKb: (m) => kb(m.resources.transferBytes),
+  ...Object.fromEntries(RESOURCE_TYPES.map((t) => [`${t}Kb`, (m: PageMetrics) => kb(m.resources.byType[t].transferBytes)])),
+  heapMb: (m) => (m.jsHeap ? Math.round(m.jsHeap.usedBytes / KB / KB * 10) / 10 : null)
+};
+
+function kb(bytes: number): number {
+  return Math.round(bytes / KB * 10) / 10;
+}
+
+export function validateBudget(budget: Record<string, number>): void {
+  const keys = Object.keys(budget);
+  if (!keys.length) {
+    throw new McpError(ErrorCode.InvalidParams, "perf_budget 需要提供 budget 参数（如 { \"lcpMs\": 2500, \"scriptKb\": 500 }）");
+  }
+  const unknown = keys.filter((k) => !BUDGET_METRICS[k]);
+  if (unknown.length) {
+    throw new McpError(ErrorCode.InvalidParams, `未知的性能指标: ${unknown.join(", ")}（可用: ${Object.keys(BUDGET_METRICS).join(", ")}）`);
+  }
+}
+
+// 返回超出预算（或无法测量）的指标描述，空数组表示全部在预算内
+export function overBudget(metrics: PageMetrics, budget: Record<string, number>): string[] {
+  return Object.entries(budget).flatMap(([key, limit]) => {
+    const value = BUDGET_METRICS[key](metrics);
+    if (value === null) return [`${key} 不可用`];
+    return value > limit ? [`${key}=${value} > ${limit}`] : [];
+  });
+}
+
+// 扁平化的主要指标（JUnit properties、报告摘要）
+export function metricValues(metrics: PageMetrics): Record<string, number> {
+  const out: Record<string, number> = {};
+  for (const [key, read] of Object.entries(BUDGET_METRICS)) {
+    const value = read(metrics);
+    if (value !== null) out[key] = value;
+  }
+  return out;
+}
@@ -0,0 +1,70 @@
+import { afterEach, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { assertEvalAllowed, isUrlAllowed, loadPolicy, policy, readablePath, writablePath } from "./policy.js";
+
+const initial = { ...policy };
+afterEach(() => {
+  Object.assign(policy, initial);
+});
+
+test("loadPolicy：环境变量覆盖策略文件，文件中的相对路径相对于文件所在目录", () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "autotest-policy-"));
+  try {
+    const file = path.join(dir, "policy.json");
+    fs.writeFileSync(file, JSON.stringify({ allowedOrigins: ["example.com"], writeRoots: ["out"], eval: "deny" }));
+    const loaded = loadPolicy({ MCP_POLICY_FILE: file, MCP_EVAL: "allowlist" });
+    assert.deepEqual(loaded.allowedOrigins, ["example.com"]);
+    assert.deepEqual(loaded.writeRoots, [path.join(dir, "out")]);
+    assert.equal(loaded.eval, "allowlist");
+    assert.throws(() => loadPolicy({ MCP_EVAL: "sometimes" }), /无效的 eval 策略/);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test("isUrlAllowed：协议、通配子域名与端口", () => {
+  policy.allowedOrigins = ["https://example.com", "*.test.dev", "http://localhost:*"];
+  assert.equal(isUrlAllowed("https://example.com/a"), true);
+  assert.equal(isUrlAllowed("http://example.com/a"), false);
+  assert.equal(isUrlAllowed("https://example.com:8443/"), false);
+  assert.equal(isUrlAllowed("https://api.test.dev:8080/x"), true);
+  assert.equal(isUrlAllowed("https://test.dev.evil.com/"), false);
+  assert.equal(isUrlAllowed("http://localhost:5173/"), true);
+  assert.equal(isUrlAllowed("about:blank"), true);
+  assert.equal(isUrlAllowed("not a url"), false);
+});
+
+test("assertEvalAllowed：allowlist 支持原文与 /正则/", () => {
+  Object.assign(policy, { eval: "allowlist", evalAllowlist: ["document.title", "/^window\\.scrollY/"] });
+  assert.doesNotThrow(() => assertEvalAllowed(" document.title ", "page_eval"));
+  assert.doesNotThrow(() => assertEvalAllowed("window.scrollY > 100", "page_eval"));
+  assert.throws(() => assertEvalAllowed("fetch('/x')", "page_eval"), /不在 evalAllowlist 中/);
+});
+
+test("writablePath / readablePath：限制在根目录内，返回解析符号链接后的路径", () => {
+  const dir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "autotest-policy-")));
+  try {
+    const root = path.join(dir, "root");
+    const outside = path.join(dir, "outside");
+    fs.mkdirSync(path.join(root, "sub"), { recursive: true });
+    fs.mkdirSync(outside);
+    fs.symlinkSync(path.join(root, "sub"), path.join(root, "link"));
+    fs.symlinkSync(outside, path.join(root, "escape"));
+    policy.writeRoots = [root];
+    policy.readRoots = undefined;
+
+    assert.equal(writablePath(path.join(root, "link", "a", "b.json"), "test"), path.join(root, "sub", "a", "b.json"));
+    assert.equal(readablePath(path.join(root, "x.json"), "test"), path.join(root, "x.json"));
+    assert.throws(() => writablePath(path.join(root, "..", "outside", "x"), "test"), /不允许写入/);
+    assert.throws(() => writablePath(path.join(root, "escape", "x"), "test"), /不允许写入/);
+    assert.throws(() => readablePath(path.join(outside, "x"), "test"), /不允许读取/);
+
+    policy.writeRoots = undefined;
+    assert.equal(writablePath("relative/file.txt", "test"), path.resolve("relative/file.txt"));
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
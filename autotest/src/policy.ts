@@ -0,0 +1,207 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import type { BrowserContext, Route } from "playwright";
+import { appendFile } from "node:fs/promises";
+import { existsSync, readFileSync, realpathSync } from "node:fs";
+import path from "node:path";
+
+// 安全策略：限制可访问的源、page_eval 等任意 JS 执行，以及文件读写的根目录。
+// 配置来自 MCP_POLICY_FILE 指向的 JSON 文件，环境变量优先；未配置的项不做限制
+export type SecurityPolicy = {
+  // 允许访问的源（如 https://example.com、https://*.example.com、http://localhost:*、example.com）
+  allowedOrigins?: string[];
+  // allow：不限制；deny：禁止；allowlist：只允许 evalAllowlist 中的表达式（/.../ 为正则）
+  eval: "allow" | "deny" | "allowlist";
+  evalAllowlist: string[];
+  readRoots?: string[];
+  // 可写根目录同时可读
+  writeRoots?: string[];
+  // 违规记录（JSON Lines）
+  auditLog?: string;
+};
+
+export type PolicyViolation = {
+  kind: "url" | "eval" | "read" | "write";
+  tool: string;
+  target: string;
+  reason: string;
+};
+
+const EVAL_MODES = ["allow", "deny", "allowlist"] as const;
+
+// 不产生网络请求的 URL 协议始终允许
+const LOCAL_PROTOCOLS = new Set(["about:", "data:", "blob:", "chrome-error:"]);
+
+export function loadPolicy(env: NodeJS.ProcessEnv = process.env): SecurityPolicy {
+  let file: Partial<SecurityPolicy> = {};
+  let baseDir = process.cwd();
+  if (env.MCP_POLICY_FILE) {
+    try {
+      file = JSON.parse(readFileSync(env.MCP_POLICY_FILE, "utf-8"));
+    } catch (e: any) {
+      throw new Error(`无法读取安全策略文件 ${env.MCP_POLICY_FILE}: ${e?.message ?? e}`);
+    }
+    // 策略文件中的相对路径相对于策略文件所在目录
+    baseDir = path.dirname(path.resolve(env.MCP_POLICY_FILE));
+  }
+  const list = (value: string | undefined, sep: string) => value?.split(sep).map((s) => s.trim()).filter(Boolean);
+  const roots = (fromEnv: string[] | undefined, fromFile: string[] | undefined) =>
+    fromEnv?.map((r) => path.resolve(r)) ?? fromFile?.map((r) => path.resolve(baseDir, r));
+  const evalMode = (env.MCP_EVAL ?? file.eval ?? "allow").trim().toLowerCase();
+  if (!(EVAL_MODES as readonly string[]).includes(evalMode)) {
+    throw new Error(`无效的 eval 策略: ${evalMode}（可选 ${EVAL_MODES.join("、")}）`);
+  }
+  const auditLog = env.MCP_AUDIT_LOG ?? (file.auditLog ? path.resolve(baseDir, file.auditLog) : undefined);
+  return {
+    allowedOrigins: list(env.MCP_ALLOWED_ORIGINS, ",") ?? file.allowedOrigins,
+    eval: evalMode as SecurityPolicy["eval"],
+    evalAllowlist: file.evalAllowlist ?? [],
+    readRoots: roots(list(env.MCP_READ_ROOTS, path.delimiter), file.readRoots),
+    writeRoots: roots(list(env.MCP_WRITE_ROOTS, path.delimiter), file.writeRoots),
+    auditLog
+  };
+}
+
+export const policy: SecurityPolicy = loadPolicy();
+
+// 记录违规到审计日志与标准错误，并返回对应的 McpError
+function violation(v: PolicyViolation): McpError {
+  const entry = { time: new Date().toISOString(), ...v };
+  console.error(`[mcp-web-autotest] 安全策略拒绝 ${v.tool}: ${v.reason}`);
+  if (policy.auditLog) {
+    appendFile(policy.auditLog, `${JSON.stringify(entry)}\n`, "utf-8").catch(() => {/* 审计日志不可写 */});
+  }
+  return new McpError(ErrorCode.InvalidRequest, `安全策略拒绝：${v.reason}`, { policy: v.kind, target: v.target });
+}
+
+// ---------------------------------------------------------------------------
+// 源（origin）
+// ---------------------------------------------------------------------------
+
+export function isUrlAllowed(url: string): boolean {
+  if (!policy.allowedOrigins) return true;
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+  if (LOCAL_PROTOCOLS.has(parsed.protocol)) return true;
+  return policy.allowedOrigins.some((entry) => originMatches(entry, parsed));
+}
+
+function originMatches(entry: string, url: URL): boolean {
+  if (/^file:\/\/\/?$/.test(entry)) return url.protocol === "file:";
+  const m = /^(?:([a-z][a-z0-9+.-]*):\/\/)?([^/:]+)(?::(\d+|\*))?\/?$/i.exec(entry.trim());
+  if (!m) return false;
+  const [, scheme, host, port] = m;
+  if (scheme && url.protocol !== `${scheme.toLowerCase()}:`) return false;
+  if (!scheme && !["http:", "https:", "ws:", "wss:"].includes(url.protocol)) return false;
+  const hostname = url.hostname.toLowerCase();
+  const pattern = host.toLowerCase();
+  const hostOk = pattern.startsWith("*.") ? hostname.endsWith(pattern.slice(1)) : hostname === pattern;
+  if (!hostOk) return false;
+  // 指定协议但未指定端口时只匹配默认端口；未指定协议时不限端口
+  if (port === "*" || (!port && !scheme)) return true;
+  return url.port === (port ?? "");
+}
+
+export function assertUrlAllowed(url: string, tool: string): void {
+  if (!isUrlAllowed(url)) {
+    throw violation({ kind: "url", tool, target: url, reason: `不允许访问 ${describeOrigin(url)}（允许的源：${policy.allowedOrigins!.join(", ")}）` });
+  }
+}
+
+function describeOrigin(url: string): string {
+  try {
+    const u = new URL(url);
+    return u.origin !== "null" ? u.origin : `${u.protocol}//`;
+  } catch {
+    return url;
+  }
+}
+
+// 在上下文级拦截请求：不允许的源（含重定向、子资源、弹窗）直接中止并记录
+export async function installNetworkGuard(context: BrowserContext): Promise<void> {
+  if (!policy.allowedOrigins) return;
+  await context.route("**/*", async (route) => {
+    if (await abortIfDisallowed(route, "network")) return;
+    await route.fallback();
+  });
+}
+
+// 请求不被允许时中止并返回 true；network_route 的 continue 放行前同样经过该检查
+export async function abortIfDisallowed(route: Route, tool: string): Promise<boolean> {
+  const url = route.request().url();
+  if (isUrlAllowed(url)) return false;
+  violation({ kind: "url", tool, target: url, reason: `已拦截对 ${describeOrigin(url)} 的请求` });
+  await route.abort("blockedbyclient");
+  return true;
+}
+
+// ---------------------------------------------------------------------------
+// 任意 JS 执行（page_eval、predicate 断言）
+// ---------------------------------------------------------------------------
+
+export function assertEvalAllowed(expression: string, tool: string): void {
+  if (policy.eval === "allow") return;
+  if (policy.eval === "allowlist") {
+    const allowed = policy.evalAllowlist.some((entry) => {
+      const m = /^\/(.*)\/([a-z]*)$/s.exec(entry);
+      return m ? new RegExp(m[1], m[2]).test(expression) : entry.trim() === expression.trim();
+    });
+    if (allowed) return;
+  }
+  const reason = policy.eval === "deny" ? "已禁用 JS 表达式执行" : "表达式不在 evalAllowlist 中";
+  throw violation({ kind: "eval", tool, target: expression.slice(0, 200), reason });
+}
+
+// ---------------------------------------------------------------------------
+// 文件读写根目录
+// ---------------------------------------------------------------------------
+
+// 返回可读的绝对路径（配置根目录时为解析符号链接后实际校验的路径，调用方应使用它而不是原始参数）；不在 readRoots / writeRoots 内时拒绝
+export function readablePath(p: string, tool: string): string {
+  const roots = policy.readRoots || policy.writeRoots ? [...(policy.readRoots ?? []), ...(policy.writeRoots ?? [])] : undefined;
+  return confine(p, roots, "read", tool);
+}
+
+// 返回可写的绝对路径；不在 writeRoots 内时拒绝
+export function writablePath(p: string, tool: string): string {
+  return confine(p, policy.writeRoots, "write", tool);
+}
+
+function confine(p: string, roots: string[] | undefined, kind: "read" | "write", tool: string): string {
+  const abs = path.resolve(p);
+  if (!roots) return abs;
+  // 解析已存在部分的符号链接，防止借助链接跳出根目录；.. 已由 resolve 归一化
+  const real = realpathNearest(abs);
+  const inside = roots.some((root) => {
+    const rel = path.relative(realpathNearest(root), real);
+    return rel === "" || (rel !== ".." && !rel.startsWith(`..${path.sep}`) && !path.isAbsolute(rel));
+  });
+  if (!inside) {
+    throw violation({ kind, tool, target: abs, reason: `${kind === "read" ? "不允许读取" : "不允许写入"} ${abs}（允许的根目录：${roots.join(", ")}）` });
+  }
+  return real;
+}
+
+function realpathNearest(p: string): string {
+  let existing = p;
+  const rest: string[] = [];
+  while (!existsSync(existing)) {
+    const parent = path.dirname(existing);
+    if (parent === existing) return p;
+    rest.unshift(path.basename(existing));
+    existing = parent;
+  }
+  try {
+    return path.join(realpathSync(existing), ...rest);
+  } catch {
+    return p;
+  }
+}
+
+// 工具产物等默认目录：配置了 writeRoots 时放在第一个根目录下
+export function defaultWriteDir(name: string): string {
+  return path.join(policy.writeRoots?.[0] ?? process.cwd(), name);
+}
@@ -0,0 +1,298 @@
+import type { BrowserContext, Frame, Page } from "playwright";
+
+// 录制产生的步骤，与 test_plan_run 的步骤结构一致
+export type RecordedStep = { name: string; arguments: Record<string, unknown> };
+
+// 页面内脚本上报的交互事件
+export type RecordedEvent =
+  | { kind: "click" | "dblclick"; selector: string }
+  | { kind: "fill"; selector: string; value: string; password?: boolean }
+  | { kind: "check" | "uncheck"; selector: string }
+  | { kind: "select"; selector: string; values: string[] }
+  | { kind: "press"; selector: string; key: string }
+  | { kind: "assert"; selector: string; assert: "visible" | "text_contains" | "value_is"; text?: string };
+
+export type Recording = {
+  steps: RecordedStep[];
+  maskPasswords: boolean;
+  // 最近一次用户操作的时间，用于区分操作引起的跳转与地址栏直接访问
+  lastActionAt: number;
+  lastUrl: string | null;
+  dispose: () => void;
+};
+
+export const RECORDER_BINDING = "__mcpRecord";
+
+// 跳转发生在用户操作后该时间内，视为由操作引起，不单独记录 page_goto
+const NAVIGATION_GRACE_MS = 1500;
+
+// 已暴露录制回调的上下文（exposeBinding 对同一上下文只能调用一次）
+const boundContexts = new WeakSet<BrowserContext>();
+
+// 开始录制：为上下文注入页面脚本、暴露回调，并监听主 frame 跳转
+export async function startRecording(
+  context: BrowserContext,
+  recording: Recording,
+  onEvent: (event: RecordedEvent, frame: Frame) => void
+): Promise<void> {
+  if (!boundContexts.has(context)) {
+    await context.exposeBinding(RECORDER_BINDING, (source, event: RecordedEvent) => onEvent(event, source.frame));
+    await context.addInitScript({ content: recorderScript() });
+    boundContexts.add(context);
+  }
+  const watched = new Set<Page>();
+  const watch = (page: Page) => {
+    if (watched.has(page)) return;
+    watched.add(page);
+    page.on("framenavigated", onNavigated);
+  };
+  const onNavigated = (frame: Frame) => {
+    if (frame.parentFrame()) return;
+    recordNavigation(recording, frame.url());
+  };
+  const onPage = (page: Page) => watch(page);
+  for (const page of context.pages()) {
+    watch(page);
+    // 已打开的页面不会执行 init script，需手动注入
+    for (const frame of page.frames()) {
+      await frame.evaluate(recorderScript()).catch(() => {/* frame 已分离 */});
+    }
+  }
+  context.on("page", onPage);
+  recording.dispose = () => {
+    context.off("page", onPage);
+    for (const page of watched) page.off("framenavigated", onNavigated);
+  };
+}
+
+export function recordNavigation(recording: Recording, url: string): void {
+  if (!/^https?:|^file:/.test(url) || url === recording.lastUrl) return;
+  recording.lastUrl = url;
+  if (Date.now() - recording.lastActionAt < NAVIGATION_GRACE_MS) return;
+  recording.steps.push({ name: "page_goto", arguments: { url } });
+}
+
+// 把页面事件转换为工具步骤；连续输入合并为一次 page_fill，双击合并之前的两次单击
+export function appendRecordedEvent(recording: Recording, event: RecordedEvent, frame?: unknown): void {
+  recording.lastActionAt = Date.now();
+  const target: Record<string, unknown> = { selector: event.selector, ...(frame ? { frame } : {}) };
+  const steps = recording.steps;
+  const last = steps[steps.length - 1];
+  const sameTarget = (step: RecordedStep | undefined) =>
+    !!step && step.arguments.selector === target.selector && JSON.stringify(step.arguments.frame) === JSON.stringify(target.frame);
+  switch (event.kind) {
+    case "click":
+      steps.push({ name: "page_click", arguments: target });
+      return;
+    case "dblclick":
+      for (let i = 0; i < 2 && steps.length && steps[steps.length - 1].name === "page_click" && sameTarget(steps[steps.length - 1]); i++) {
+        steps.pop();
+      }
+      steps.push({ name: "page_dblclick", arguments: target });
+      return;
+    case "fill": {
+      const value = event.password && recording.maskPasswords ? "${env.PASSWORD}" : event.value;
+      if (last?.name === "page_fill" && sameTarget(last)) {
+        last.arguments.value = value;
+      } else {
+        steps.push({ name: "page_fill", arguments: { ...target, value } });
+      }
+      return;
+    }
+    case "check":
+    case "uncheck":
+      steps.push({ name: event.kind === "check" ? "page_check" : "page_uncheck", arguments: target });
+      return;
+    case "select":
+      steps.push({ name: "page_select_option", arguments: { ...target, values: event.values } });
+      return;
+    case "press":
+      steps.push({ name: "keyboard_press", arguments: { ...target, key: event.key } });
+      return;
+    case "assert":
+      steps.push({ name: "page_assert", arguments: { kind: event.assert, ...target, ...(event.text !== undefined ? { text: event.text } : {}) } });
+      return;
+  }
+}
+
+// 子 frame 中的事件以 name（或 URL）定位 frame
+export function frameTargetOf(frame: Frame): { name: string } | { url: string } | undefined {
+  if (!frame.parentFrame()) return undefined;
+  return frame.name() ? { name: frame.name() } : { url: frame.url() };
+}
+
+// 页面内录制脚本；以字符串注入，并为 tsx 注入的 __name 提供空实现
+function recorderScript(): string {
+  return `globalThis.__name = globalThis.__name ?? ((f) => f);\n(${installRecorder.toString()})(${JSON.stringify(RECORDER_BINDING)});`;
+}
+
+// 录制脚本在页面上的标记与 exposeBinding 注入的回调
+type RecorderWindow = Window & { __mcpRecorderInstalled?: boolean } & Record<string, unknown>;
+
+function installRecorder(binding: string): void {
+  const w = window as unknown as RecorderWindow;
+  if (w.__mcpRecorderInstalled) return;
+  w.__mcpRecorderInstalled = true;
+  const emit = (event: unknown) => {
+    const send = w[binding];
+    if (typeof send === "function") send(event);
+  };
+
+  const TEST_IDS = ["data-testid", "data-test-id", "data-test"];
+  const INTERACTIVE = "button, a[href], input, select, textarea, summary, label, [role], [onclick], [tabindex]";
+  const norm = (s: string | null | undefined) => (s ?? "").replace(/\s+/g, " ").trim();
+  const quote = (s: string) => JSON.stringify(s);
+  const unique = (css: string) => {
+    try {
+      return document.querySelectorAll(css).length === 1;
+    } catch {
+      return false;
+    }
+  };
+
+  const roleOf = (el: Element): string | null => {
+    const explicit = el.getAttribute("role");
+    if (explicit) return explicit.split(/\s+/)[0];
+    const tag = el.tagName.toLowerCase();
+    if (tag === "a" && el.hasAttribute("href")) return "link";
+    if (tag === "button" || tag === "summary") return "button";
+    if (/^h[1-6]$/.test(tag)) return "heading";
+    if (tag === "select") return (el as HTMLSelectElement).multiple ? "listbox" : "combobox";
+    if (tag === "textarea") return "textbox";
+    if (tag === "input") {
+      const type = (el as HTMLInputElement).type;
+      if (["button", "submit", "reset", "image"].includes(type)) return "button";
+      if (type === "checkbox" || type === "radio") return type;
+      if (type === "search") return "searchbox";
+      if (["text", "email", "tel", "url", "password", ""].includes(type)) return type === "password" ? null : "textbox";
+    }
+    return null;
+  };
+  const nameOf = (el: Element): string => {
+    const label = norm(el.getAttribute("aria-label"));
+    if (label) return label;
+    const id = el.getAttribute("id");
+    if (id && /^(INPUT|SELECT|TEXTAREA)$/.test(el.tagName)) {
+      const forLabel = document.querySelector(`label[for=${quote(id)}]`);
+      if (forLabel) return norm(forLabel.textContent);
+    }
+    if (el.tagName === "INPUT") {
+      const input = el as HTMLInputElement;
+      if (["button", "submit", "reset"].includes(input.type)) return norm(input.value);
+      return norm(el.closest("label")?.textContent);
+    }
+    if (/^(SELECT|TEXTAREA)$/.test(el.tagName)) return norm(el.closest("label")?.textContent);
+    return norm((el as HTMLElement).innerText ?? el.textContent);
+  };
+  const sameRoleAndName = (role: string, name: string) =>
+    Array.from(document.querySelectorAll("*")).filter((e) => roleOf(e) === role && nameOf(e) === name).length;
+  const sameText = (text: string) =>
+    Array.from(document.querySelectorAll("body *")).filter((e) =>
+      norm((e as HTMLElement).innerText ?? e.textContent) === text &&
+      !Array.from(e.children).some((c) => norm((c as HTMLElement).innerText ?? c.textContent) === text)
+    ).length;
+
+  const cssPath = (el: Element): string => {
+    const parts: string[] = [];
+    for (let cur: Element | null = el; cur && cur !== document.documentElement; cur = cur.parentElement) {
+      const id = cur.getAttribute("id");
+      if (id && /^[A-Za-z][\w-]*$/.test(id) && !/\d{3,}/.test(id) && unique(`#${id}`)) {
+        parts.unshift(`#${id}`);
+        return parts.join(" > ");
+      }
+      const tag = cur.tagName.toLowerCase();
+      const parent: Element | null = cur.parentElement;
+      const same = parent ? Array.from(parent.children).filter((c) => c.tagName === cur!.tagName) : [];
+      parts.unshift(same.length > 1 ? `${tag}:nth-of-type(${same.indexOf(cur) + 1})` : tag);
+    }
+    return parts.join(" > ");
+  };
+
+  // 选择器优先级：test id > role + 名称 > 文本 > CSS（name 属性或结构路径）
+  const selectorFor = (el: Element): string => {
+    for (const attr of TEST_IDS) {
+      const v = el.getAttribute(attr);
+      if (v && unique(`[${attr}=${quote(v)}]`)) return `${attr}=${v}`;
+    }
+    const role = roleOf(el);
+    const name = nameOf(el);
+    if (role && name && name.length <= 80 && sameRoleAndName(role, name) === 1) {
+      return `role=${role}[name=${quote(name)}s]`;
+    }
+    const formControl = /^(INPUT|SELECT|TEXTAREA)$/.test(el.tagName);
+    if (!role && !formControl && name && name.length <= 80 && sameText(name) === 1) return `text=${quote(name)}`;
+    const nameAttr = el.getAttribute("name");
+    const tag = el.tagName.toLowerCase();
+    if (nameAttr && unique(`${tag}[name=${quote(nameAttr)}]`)) return `${tag}[name=${quote(nameAttr)}]`;
+    return cssPath(el);
+  };
+
+  const isTextInput = (el: Element) =>
+    el.tagName === "TEXTAREA" ||
+    (el.tagName === "INPUT" && !["checkbox", "radio", "button", "submit", "reset", "image", "file", "range", "color"].includes((el as HTMLInputElement).type)) ||
+    (el as HTMLElement).isContentEditable;
+  const isToggle = (el: Element) => el.tagName === "INPUT" && ["checkbox", "radio"].includes((el as HTMLInputElement).type);
+
+  document.addEventListener("click", (e) => {
+    const raw = e.target as Element | null;
+    if (!raw || !(raw instanceof Element)) return;
+    // Alt + 点击：拾取断言（不触发页面原有行为）
+    if (e.altKey) {
+      e.preventDefault();
+      e.stopImmediatePropagation();
+      const selector = selectorFor(raw);
+      if (/^(INPUT|TEXTAREA|SELECT)$/.test(raw.tagName) && !isToggle(raw)) {
+        emit({ kind: "assert", selector, assert: "value_is", text: (raw as HTMLInputElement).value });
+        return;
+      }
+      const text = norm((raw as HTMLElement).innerText ?? raw.textContent);
+      emit(text && !e.shiftKey
+        ? { kind: "assert", selector, assert: "text_contains", text: text.slice(0, 100) }
+        : { kind: "assert", selector, assert: "visible" });
+      return;
+    }
+    const el = raw.closest(INTERACTIVE) ?? raw;
+    // 勾选与下拉由 change 事件记录；点击文本框只为聚焦，不记录
+    if (isToggle(el) || el.tagName === "SELECT" || el.tagName === "OPTION" || isTextInput(el)) return;
+    if (el.tagName === "LABEL") {
+      const control = (el as HTMLLabelElement).control;
+      if (control && (isToggle(control) || isTextInput(control) || control.tagName === "SELECT")) return;
+    }
+    emit({ kind: "click", selector: selectorFor(el) });
+  }, true);
+
+  document.addEventListener("dblclick", (e) => {
+    const raw = e.target as Element | null;
+    if (!raw || !(raw instanceof Element) || e.altKey) return;
+    const el = raw.closest(INTERACTIVE) ?? raw;
+    if (isTextInput(el)) return;
+    emit({ kind: "dblclick", selector: selectorFor(el) });
+  }, true);
+
+  document.addEventListener("input", (e) => {
+    const el = e.target as Element | null;
+    if (!el || !(el instanceof Element) || !isTextInput(el)) return;
+    const value = (el as HTMLElement).isContentEditable ? norm(el.textContent) : (el as HTMLInputElement).value;
+    emit({ kind: "fill", selector: selectorFor(el), value, password: (el as HTMLInputElement).type === "password" });
+  }, true);
+
+  document.addEventListener("change", (e) => {
+    const el = e.target as Element | null;
+    if (!el || !(el instanceof Element)) return;
+    if (isToggle(el)) {
+      emit({ kind: (el as HTMLInputElement).checked ? "check" : "uncheck", selector: selectorFor(el) });
+    } else if (el.tagName === "SELECT") {
+      const values = Array.from((el as HTMLSelectElement).selectedOptions).map((o) => o.value);
+      emit({ kind: "select", selector: selectorFor(el), values });
+    }
+  }, true);
+
+  document.addEventListener("keydown", (e) => {
+    const el = e.target as Element | null;
+    if (!el || !(el instanceof Element)) return;
+    // 文本框中的 Enter（提交）与任意位置的 Escape（关闭弹层）；按钮上的 Enter 已由 click 记录
+    if ((e.key === "Enter" && isTextInput(el)) || e.key === "Escape") {
+      emit({ kind: "press", selector: selectorFor(el), key: e.key });
+    }
+  }, true);
+}
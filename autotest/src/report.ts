@@ -0,0 +1,414 @@
+import { createHash, randomUUID } from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { A11yViolation } from "./a11y.js";
+import type { FlowStepRecord } from "./flow.js";
+import { reportStatus, ReportStatus } from "./history.js";
+import { consoleErrors, failedRequests, PageLogs } from "./logs.js";
+import { metricValues, PageMetrics } from "./perf.js";
+import { mimeTypeFor } from "./resources.js";
+
+// ---------------------------------------------------------------------------
+// 结果模型：suite → test → attempt → step
+// ---------------------------------------------------------------------------
+
+export type StepResult = {
+  name: string;
+  // 控制流内步骤的路径（如 3.then.1）
+  path?: string;
+  arguments?: Record<string, any>;
+  ok: boolean;
+  soft?: boolean;
+  message?: string;
+  stack?: string;
+  worker?: number;
+  startedAt: string;
+  durationMs: number;
+};
+
+export type AttemptResult = {
+  // 从 1 开始
+  attempt: number;
+  ok: boolean;
+  error?: string;
+  stack?: string;
+  startedAt: string;
+  durationMs: number;
+  steps: StepResult[];
+  artifacts: string[];
+};
+
+export type A11ySummary = { counts: Record<string, number>; violations: A11yViolation[] };
+
+export type TestResult = {
+  name: string;
+  tags?: string[];
+  parameters?: Record<string, unknown>;
+  ok: boolean;
+  // 重试后才通过
+  flaky: boolean;
+  // 在套件的 quarantine 列表中：照常执行，但失败不计入套件结果
+  quarantined?: boolean;
+  error?: string;
+  retries: number;
+  worker?: number;
+  startedAt: string;
+  durationMs: number;
+  attempts: AttemptResult[];
+  artifacts: string[];
+  a11y?: A11ySummary;
+  // page_metrics / perf_budget / collectMetrics 采集的性能指标（最后一次尝试）
+  metrics?: PageMetrics[];
+};
+
+export type SuiteResult = {
+  name?: string;
+  setup: StepResult[];
+  tests: TestResult[];
+  teardown: StepResult[];
+  startedAt: string;
+  durationMs: number;
+  vars: Record<string, unknown>;
+  artifactsDir: string;
+  workers?: number;
+  shard?: { index: number; total: number };
+  // 套件超时（timeout）或请求被取消（cancelled）而提前结束，未执行的测试不在 tests 中
+  interrupted?: "timeout" | "cancelled";
+};
+
+// test_suite_run 执行过程中的事件；begin 在每个套件（或项目）开始执行测试前发出，test 为空时是 setup/teardown 的步骤
+export type SuiteEvent =
+  | { type: "begin"; suite?: string; total: number }
+  | { type: "testBegin"; name: string; worker?: number }
+  | { type: "step"; test?: string; step: StepResult }
+  | { type: "testEnd"; test: TestResult };
+
+export type ProjectSuiteResult = SuiteResult & { project: string; browserType?: string; device?: string };
+
+// test_suite_run 的返回：单次运行，或按项目（浏览器/设备组合）分组
+export type RunResults = (SuiteResult | { projects: ProjectSuiteResult[]; artifactsDir: string }) & { junit: string | null };
+
+export function toStepResult(record: FlowStepRecord, extra: { worker?: number } = {}): StepResult {
+  const nested = record.path.includes(".") || record.path.includes("#");
+  const error = record.error instanceof Error ? record.error : undefined;
+  return {
+    name: record.name,
+    ...(nested ? { path: record.path } : {}),
+    ...(record.arguments ? { arguments: record.arguments } : {}),
+    ok: record.error === undefined && !record.softError,
+    ...(record.softError ? { soft: true, message: record.softError } : {}),
+    ...(record.error !== undefined ? { message: error?.message ?? String(record.error), stack: error?.stack } : {}),
+    ...extra,
+    startedAt: new Date(record.startedAt).toISOString(),
+    durationMs: record.durationMs
+  };
+}
+
+// 各次套件运行及其在报告中的名称
+export function suiteRuns(results: RunResults, name = "mcp-web-autotest"): Array<{ name: string; run: SuiteResult }> {
+  // 分片执行时在名称中标明分片，便于 CI 合并多台机器的报告
+  const shardOf = (r: SuiteResult) => (r.shard ? ` [shard ${r.shard.index}/${r.shard.total}]` : "");
+  if ("projects" in results) return results.projects.map((p) => ({ name: `${p.project}${shardOf(p)}`, run: p }));
+  return [{ name: `${results.name ?? name}${shardOf(results)}`, run: results }];
+}
+
+// ---------------------------------------------------------------------------
+// JUnit
+// ---------------------------------------------------------------------------
+
+export function buildJUnit(results: RunResults): string {
+  // 每个项目（浏览器/设备组合）对应一个 testsuite；隔离的测试另成一个 "<名称> [quarantined]" testsuite，失败写为 skipped
+  const suites = suiteRuns(results).flatMap(({ name, run }) => {
+    const quarantined = run.tests.filter((t) => t.quarantined);
+    return [
+      buildJUnitSuite(name, { ...run, tests: run.tests.filter((t) => !t.quarantined) }),
+      ...(quarantined.length ? [buildJUnitSuite(`${name} [quarantined]`, { ...run, tests: quarantined, durationMs: quarantined.reduce((sum, t) => sum + t.durationMs, 0) })] : [])
+    ];
+  });
+  if ("projects" in results || suites.length > 1) {
+    return `<?xml version="1.0" encoding="UTF-8"?><testsuites name="mcp-web-autotest">${suites.join("")}</testsuites>`;
+  }
+  return `<?xml version="1.0" encoding="UTF-8"?>${suites[0]}`;
+}
+
+function buildJUnitSuite(name: string, run: SuiteResult): string {
+  const failures = run.tests.filter((t) => !t.ok && !t.quarantined).length;
+  const skipped = run.tests.filter((t) => !t.ok && t.quarantined).length;
+  const cases = run.tests.map((t) => {
+    const a11y = buildJUnitA11y(t.a11y);
+    const perf = buildJUnitMetrics(t.metrics);
+    const properties = [
+      ...Object.entries(t.parameters ?? {}).map(([k, v]) => property(`param.${k}`, typeof v === "string" ? v : JSON.stringify(v))),
+      ...(t.retries ? [property("retries", String(t.retries))] : []),
+      ...(t.flaky ? [property("flaky", "true")] : []),
+      ...(t.quarantined ? [property("quarantined", "true")] : []),
+      ...(t.worker ? [property("worker", String(t.worker))] : []),
+      a11y.properties,
+      perf.properties
+    ].join("");
+    // 最终失败的那次尝试写为 failure，之前失败的尝试按 Surefire 约定写为 rerunFailure（最终失败）或 flakyFailure（最终通过）
+    const last = t.attempts[t.attempts.length - 1];
+    // 隔离测试最终失败时只写 skipped，各次尝试见 system-out
+    const retried = t.attempts.filter((a) => !a.ok && a !== last && !(t.quarantined && !t.ok))
+      .map((a) => {
+        const tag = t.ok ? "flakyFailure" : "rerunFailure";
+        return `<${tag} message="${escapeXml(a.error ?? "error")}"><stackTrace>${escapeXml(a.stack ?? "")}</stackTrace></${tag}>`;
+      });
+    const failure = t.ok
+      ? ""
+      : t.quarantined
+        ? `<skipped message="${escapeXml(`quarantined: ${t.error || "error"}`)}"/>`
+        : `<failure message="${escapeXml(t.error || "error")}">${escapeXml(last?.stack ?? t.error ?? "")}</failure>`;
+    // 按 JUnit Attachments 约定在 system-out 中引用失败产物（截图、trace、视觉 diff）
+    const out = [
+      // 隔离测试的失败堆栈写入 system-out
+      ...(!t.ok && t.quarantined ? [`[quarantined] ${last?.stack ?? t.error ?? ""}`] : []),
+      ...t.attempts.flatMap((a) => attemptLines(a, t.attempts.length)),
+      a11y.lines,
+      perf.lines,
+      ...t.artifacts.map((a) => `[[ATTACHMENT|${a}]]`)
+    ].filter(Boolean).join("\n");
+    return `<testcase name="${escapeXml(t.name)}" classname="${escapeXml(name)}" time="${seconds(t.durationMs)}">`
+      + `${properties ? `<properties>${properties}</properties>` : ""}${failure}${retried.join("")}`
+      + `${out ? `<system-out>${escapeXml(out)}</system-out>` : ""}</testcase>`;
+  }).join("");
+  const suiteProperties = run.interrupted ? `<properties>${property("interrupted", run.interrupted)}</properties>` : "";
+  return `<testsuite name="${escapeXml(name)}" tests="${run.tests.length}" failures="${failures}" errors="0" skipped="${skipped}" time="${seconds(run.durationMs)}" timestamp="${escapeXml(run.startedAt)}">${suiteProperties}${cases}</testsuite>`;
+}
+
+function attemptLines(a: AttemptResult, total: number): string[] {
+  const header = total > 1 ? [`--- attempt ${a.attempt}/${total} ${a.ok ? "passed" : "failed"} (${a.durationMs}ms)`] : [];
+  return [...header, ...a.steps.map(stepLine)];
+}
+
+function stepLine(s: StepResult): string {
+  const status = s.ok ? "ok" : (s.soft ? "soft-fail" : "fail");
+  return `[${status}] ${s.path ?? ""}${s.path ? " " : ""}${s.name} (${s.durationMs}ms)${s.message ? `: ${s.message}` : ""}`;
+}
+
+// 无障碍违规：按影响级别计数写入 properties，逐条明细写入 system-out
+function buildJUnitA11y(a11y: A11ySummary | undefined): { properties: string; lines: string } {
+  if (!a11y) return { properties: "", lines: "" };
+  const properties = Object.entries(a11y.counts).map(([impact, n]) => property(`a11y.${impact}`, String(n))).join("");
+  const lines = a11y.violations.flatMap((v) => v.nodes.map((n) =>
+    `[a11y] ${v.rule} (${v.impact}, WCAG ${v.wcag}) ${n.selector}${n.message ? `: ${n.message}` : ""} - ${v.help} ${v.helpUrl}`
+  )).join("\n");
+  return { properties, lines };
+}
+
+// 性能指标：最后一次采集的主要指标写入 properties（perf.lcpMs 等），每次采集一行写入 system-out
+function buildJUnitMetrics(metrics: PageMetrics[] | undefined): { properties: string; lines: string } {
+  if (!metrics?.length) return { properties: "", lines: "" };
+  const last = metricValues(metrics[metrics.length - 1]);
+  const properties = Object.entries(last).map(([k, v]) => property(`perf.${k}`, String(v))).join("");
+  const lines = metrics.map((m) => `[perf] ${m.url} ${metricsSummary(m)}`).join("\n");
+  return { properties, lines };
+}
+
+function metricsSummary(m: PageMetrics): string {
+  return Object.entries(metricValues(m)).filter(([k, v]) => !k.endsWith("Kb") || k === "totalKb" || v > 0).map(([k, v]) => `${k}=${v}`).join(" ");
+}
+
+function property(name: string, value: string): string {
+  return `<property name="${escapeXml(name)}" value="${escapeXml(value)}"/>`;
+}
+
+function seconds(ms: number): string {
+  return (ms / 1000).toFixed(3);
+}
+
+export function escapeXml(s: string): string {
+  return String(s).replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&apos;");
+}
+
+// ---------------------------------------------------------------------------
+// HTML 报告：单文件，截图内嵌为 data URI，日志给出摘录，trace 等其它产物以相对链接引用
+// ---------------------------------------------------------------------------
+
+const INTERRUPTED_TEXT = { timeout: "套件超时，提前结束", cancelled: "运行已取消" };
+
+// 超过该大小的图片不内嵌，改为链接
+const MAX_EMBED_BYTES = 2 * 1024 * 1024;
+const LOG_EXCERPT_LINES = 20;
+
+export async function buildHtmlReport(results: RunResults, reportPath: string): Promise<string> {
+  const runs = suiteRuns(results);
+  const tests = runs.flatMap((r) => r.run.tests);
+  const count = (status: ReportStatus) => tests.filter((t) => reportStatus(t) === status).length;
+  const [passed, flaky, quarantined, failed] = [count("passed"), count("flaky"), count("quarantined"), count("failed")];
+  const duration = runs.reduce((sum, r) => sum + r.run.durationMs, 0);
+  const sections: string[] = [];
+  for (const { name, run } of runs) {
+    const body: string[] = [];
+    if (run.setup.length) body.push(`<details class="phase"><summary>setup（${run.setup.length} 步）</summary>${stepTable(run.setup)}</details>`);
+    for (const t of run.tests) body.push(await testSection(t, reportPath));
+    if (run.teardown.length) body.push(`<details class="phase"><summary>teardown（${run.teardown.length} 步）</summary>${stepTable(run.teardown)}</details>`);
+    const meta = [run.startedAt, `${run.durationMs}ms`, run.workers ? `workers=${run.workers}` : "", run.interrupted ? INTERRUPTED_TEXT[run.interrupted] : ""].filter(Boolean).join(" · ");
+    sections.push(`<section><h2>${escapeHtml(name)}</h2><p class="meta">${escapeHtml(meta)}</p>${body.join("\n")}</section>`);
+  }
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="utf-8">
+<title>mcp-web-autotest 测试报告</title>
+<style>
+body { font: 14px/1.5 system-ui, sans-serif; margin: 24px; color: #1f2328; }
+h1 { margin: 0 0 8px; }
+.summary span { display: inline-block; margin-right: 16px; font-weight: 600; }
+.meta { color: #59636e; margin: 0 0 8px; }
+details { border: 1px solid #d1d9e0; border-radius: 6px; margin: 6px 0; padding: 4px 10px; }
+details > summary { cursor: pointer; }
+.test.passed > summary::before { content: "✔ "; color: #1a7f37; }
+.test.failed > summary::before { content: "✘ "; color: #d1242f; }
+.test.flaky > summary::before { content: "⚠ "; color: #9a6700; }
+.test.quarantined > summary::before { content: "◌ "; color: #59636e; }
+.passed-text { color: #1a7f37; } .failed-text { color: #d1242f; } .flaky-text { color: #9a6700; } .quarantined-text { color: #59636e; }
+table { border-collapse: collapse; width: 100%; margin: 6px 0; }
+th, td { border-bottom: 1px solid #eef1f4; padding: 3px 6px; text-align: left; vertical-align: top; }
+td.args { font-family: ui-monospace, monospace; font-size: 12px; word-break: break-all; }
+tr.fail td { background: #ffebe9; } tr.soft td { background: #fff8c5; }
+pre { background: #f6f8fa; padding: 8px; overflow: auto; max-height: 320px; }
+img { max-width: 100%; border: 1px solid #d1d9e0; margin: 4px 0; }
+</style>
+</head>
+<body>
+<h1>mcp-web-autotest 测试报告</h1>
+<p class="summary"><span>共 ${tests.length}</span><span class="passed-text">通过 ${passed}</span><span class="failed-text">失败 ${failed}</span><span class="flaky-text">不稳定 ${flaky}</span>${quarantined ? `<span class="quarantined-text">隔离失败 ${quarantined}</span>` : ""}<span>耗时 ${duration}ms</span></p>
+${sections.join("\n")}
+</body>
+</html>
+`;
+}
+
+async function testSection(t: TestResult, reportPath: string): Promise<string> {
+  const status = reportStatus(t);
+  const info = [`${t.durationMs}ms`, t.retries ? `重试 ${t.retries} 次` : "", t.worker ? `worker ${t.worker}` : "", t.quarantined ? "已隔离" : ""].filter(Boolean).join(" · ");
+  const parts: string[] = [];
+  if (t.parameters) parts.push(`<p>参数：<code>${escapeHtml(JSON.stringify(t.parameters))}</code></p>`);
+  if (!t.ok && t.error) parts.push(`<pre>${escapeHtml(t.attempts[t.attempts.length - 1]?.stack ?? t.error)}</pre>`);
+  for (const a of t.attempts) {
+    const artifacts = (await Promise.all(a.artifacts.map((file) => artifactHtml(file, reportPath)))).join("");
+    parts.push(`<details${t.attempts.length === 1 || !a.ok ? " open" : ""}><summary>第 ${a.attempt} 次尝试：<span class="${a.ok ? "passed" : "failed"}-text">${a.ok ? "通过" : "失败"}</span> · ${a.durationMs}ms</summary>`
+      + `${a.error ? `<p class="failed-text">${escapeHtml(a.error)}</p>` : ""}${stepTable(a.steps)}${artifacts}</details>`);
+  }
+  if (t.a11y) {
+    const lines = t.a11y.violations.flatMap((v) => v.nodes.map((n) => `${v.rule} (${v.impact}) ${n.selector}${n.message ? `: ${n.message}` : ""}`));
+    parts.push(`<details><summary>无障碍违规 ${lines.length}</summary><pre>${escapeHtml(lines.join("\n"))}</pre></details>`);
+  }
+  if (t.metrics?.length) {
+    const lines = t.metrics.map((m) => `${m.url}\n  ${metricsSummary(m)}`);
+    parts.push(`<details><summary>性能指标 ${t.metrics.length}</summary><pre>${escapeHtml(lines.join("\n"))}</pre></details>`);
+  }
+  return `<details class="test ${status}"${t.ok ? "" : " open"}><summary>${escapeHtml(t.name)} <span class="meta">${escapeHtml(info)}</span></summary>${parts.join("")}</details>`;
+}
+
+function stepTable(steps: StepResult[]): string {
+  if (!steps.length) return "";
+  const rows = steps.map((s) => {
+    const cls = s.ok ? "" : (s.soft ? " class=\"soft\"" : " class=\"fail\"");
+    const error = s.message ? `<br><span class="failed-text">${escapeHtml(s.message)}</span>` : "";
+    const stack = !s.ok && !s.soft && s.stack ? `<details><summary>堆栈</summary><pre>${escapeHtml(s.stack)}</pre></details>` : "";
+    return `<tr${cls}><td>${escapeHtml(s.path ?? "")}</td><td>${escapeHtml(s.name)}${error}${stack}</td><td class="args">${s.arguments ? escapeHtml(JSON.stringify(s.arguments)) : ""}</td><td>${s.durationMs}ms</td></tr>`;
+  }).join("");
+  return `<table><thead><tr><th></th><th>步骤</th><th>参数</th><th>耗时</th></tr></thead><tbody>${rows}</tbody></table>`;
+}
+
+async function artifactHtml(file: string, reportPath: string): Promise<string> {
+  const href = escapeHtml(encodeURI(path.relative(path.dirname(path.resolve(reportPath)), path.resolve(file)).split(path.sep).join("/")));
+  const label = escapeHtml(path.basename(file));
+  try {
+    if (/\.png$/i.test(file)) {
+      const data = await fs.readFile(file);
+      if (data.length <= MAX_EMBED_BYTES) {
+        return `<figure><figcaption>${label}</figcaption><img src="data:image/png;base64,${data.toString("base64")}" alt="${label}"></figure>`;
+      }
+    } else if (/_logs\.json$/i.test(file)) {
+      const excerpt = logExcerpt(JSON.parse(await fs.readFile(file, "utf-8")));
+      return `<details><summary>日志摘录 <a href="${href}">${label}</a></summary><pre>${escapeHtml(excerpt || "（无错误或失败请求）")}</pre></details>`;
+    } else if (/\.zip$/i.test(file)) {
+      return `<p>Trace：<a href="${href}">${label}</a>（<code>npx playwright show-trace ${escapeHtml(file)}</code>）</p>`;
+    }
+  } catch {/* 产物不可读时退化为链接 */}
+  return `<p>产物：<a href="${href}">${label}</a></p>`;
+}
+
+// 日志摘录：各标签页的控制台错误、未捕获异常与失败请求
+function logExcerpt(dump: Record<string, PageLogs>): string {
+  const lines: string[] = [];
+  for (const [pageId, logs] of Object.entries(dump)) {
+    for (const e of consoleErrors(logs)) lines.push(`[${pageId}] error: ${"text" in e ? e.text : e.message}`);
+    for (const r of failedRequests(logs)) lines.push(`[${pageId}] ${r.method} ${r.url} -> ${r.failure ?? r.status}`);
+  }
+  const more = lines.length > LOG_EXCERPT_LINES ? [`... 另有 ${lines.length - LOG_EXCERPT_LINES} 条`] : [];
+  return [...lines.slice(0, LOG_EXCERPT_LINES), ...more].join("\n");
+}
+
+function escapeHtml(s: string): string {
+  return String(s).replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+// ---------------------------------------------------------------------------
+// Allure：每次尝试写一个 <uuid>-result.json，同一测试的多次尝试共用 historyId（Allure 显示为重试），产物复制为附件
+// ---------------------------------------------------------------------------
+
+export async function writeAllureResults(results: RunResults, dir: string): Promise<string[]> {
+  await fs.mkdir(dir, { recursive: true });
+  const written: string[] = [];
+  for (const { name, run } of suiteRuns(results)) {
+    for (const t of run.tests) {
+      const historyId = createHash("md5").update(`${name}\u0000${t.name}`).digest("hex");
+      // 隔离的测试标记为 muted，重试后通过的标记为 flaky
+      const marks = { ...(t.quarantined ? { muted: true } : {}), ...(t.flaky ? { flaky: true } : {}) };
+      for (const a of t.attempts) {
+        const attachments = [];
+        for (const file of a.artifacts) {
+          const source = `${randomUUID()}-attachment${path.extname(file)}`;
+          try {
+            await fs.copyFile(file, path.join(dir, source));
+            attachments.push({ name: path.basename(file), source, type: mimeTypeFor(file) });
+          } catch {/* 产物已被删除 */}
+        }
+        const start = Date.parse(a.startedAt);
+        const result = {
+          uuid: randomUUID(),
+          historyId,
+          name: t.name,
+          fullName: `${name} > ${t.name}`,
+          status: a.ok ? "passed" : "failed",
+          ...(a.ok
+            ? (Object.keys(marks).length ? { statusDetails: marks } : {})
+            : { statusDetails: { message: a.error, trace: a.stack, ...marks } }),
+          stage: "finished",
+          start,
+          stop: start + a.durationMs,
+          labels: [
+            { name: "suite", value: name },
+            { name: "framework", value: "mcp-web-autotest" },
+            ...(t.worker ? [{ name: "thread", value: `worker ${t.worker}` }] : []),
+            ...(t.tags ?? []).map((tag) => ({ name: "tag", value: tag.replace(/^@/, "") }))
+          ],
+          parameters: Object.entries(t.parameters ?? {}).map(([k, v]) => ({ name: k, value: typeof v === "string" ? v : JSON.stringify(v) })),
+          steps: a.steps.map(allureStep),
+          attachments
+        };
+        const file = path.join(dir, `${result.uuid}-result.json`);
+        await fs.writeFile(file, JSON.stringify(result, null, 2), "utf-8");
+        written.push(file);
+      }
+    }
+  }
+  return written;
+}
+
+function allureStep(s: StepResult) {
+  const start = Date.parse(s.startedAt);
+  return {
+    name: `${s.path ? `${s.path} ` : ""}${s.name}`,
+    status: s.ok ? "passed" : "failed",
+    ...(s.ok ? {} : { statusDetails: { message: s.message, trace: s.stack } }),
+    stage: "finished",
+    start,
+    stop: start + s.durationMs,
+    parameters: Object.entries(s.arguments ?? {}).map(([k, v]) => ({ name: k, value: typeof v === "string" ? v : JSON.stringify(v) }))
+  };
+}
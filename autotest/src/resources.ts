@@ -0,0 +1,96 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+
+// 以 MCP 资源形式暴露的产物（截图、trace、JUnit 报告、产物目录等）
+export type ArtifactResource = {
+  uri: string;
+  name: string;
+  path: string;
+  mimeType: string;
+  kind: "file" | "directory";
+  description?: string;
+};
+
+export type ResourceContent = { uri: string; mimeType: string; text?: string; blob?: string };
+
+const MIME_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".zip": "application/zip",
+  ".xml": "application/xml",
+  ".json": "application/json",
+  ".har": "application/json",
+  ".html": "text/html",
+  ".txt": "text/plain",
+  ".log": "text/plain",
+  ".csv": "text/csv",
+  ".pdf": "application/pdf"
+};
+
+export function mimeTypeFor(filePath: string): string {
+  return MIME_TYPES[path.extname(filePath).toLowerCase()] ?? "application/octet-stream";
+}
+
+function isTextMime(mimeType: string): boolean {
+  return mimeType.startsWith("text/") || mimeType === "application/json" || mimeType === "application/xml";
+}
+
+// 登记产物并分配 artifact:// URI；同一路径重复登记时返回已有条目
+export function registerArtifact(
+  registry: Map<string, ArtifactResource>,
+  filePath: string,
+  options: { description?: string; kind?: "file" | "directory" } = {}
+): ArtifactResource {
+  const abs = path.resolve(filePath);
+  for (const entry of registry.values()) {
+    if (entry.path === abs) return entry;
+  }
+  const kind = options.kind ?? "file";
+  const name = path.basename(abs);
+  const uri = `artifact://${kind === "directory" ? "dirs" : "files"}/${registry.size + 1}/${encodeURIComponent(name)}`;
+  const entry: ArtifactResource = {
+    uri,
+    name,
+    path: abs,
+    mimeType: kind === "directory" ? "inode/directory" : mimeTypeFor(abs),
+    kind,
+    description: options.description
+  };
+  registry.set(uri, entry);
+  return entry;
+}
+
+// 读取产物内容：文本类型返回 text，其余返回 base64 blob；目录返回其中文件的 JSON 清单（并登记为资源）
+export async function readArtifact(registry: Map<string, ArtifactResource>, entry: ArtifactResource): Promise<ResourceContent> {
+  if (entry.kind === "directory") {
+    const files: Array<{ name: string; size: number; uri: string; mimeType: string }> = [];
+    for (const rel of await listFiles(entry.path)) {
+      const full = path.join(entry.path, rel);
+      const child = registerArtifact(registry, full, { description: `${entry.name}/${rel}` });
+      const { size } = await fs.stat(full);
+      files.push({ name: rel, size, uri: child.uri, mimeType: child.mimeType });
+    }
+    return { uri: entry.uri, mimeType: "application/json", text: JSON.stringify({ path: entry.path, files }) };
+  }
+  const buf = await fs.readFile(entry.path);
+  if (isTextMime(entry.mimeType)) {
+    return { uri: entry.uri, mimeType: entry.mimeType, text: buf.toString("utf-8") };
+  }
+  return { uri: entry.uri, mimeType: entry.mimeType, blob: buf.toString("base64") };
+}
+
+// 工具结果中引用资源的 resource_link 内容项
+export function resourceLink(entry: ArtifactResource): { type: "resource_link"; uri: string; name: string; mimeType: string; description?: string } {
+  return { type: "resource_link", uri: entry.uri, name: entry.name, mimeType: entry.mimeType, description: entry.description };
+}
+
+async function listFiles(dir: string, prefix = ""): Promise<string[]> {
+  const out: string[] = [];
+  for (const d of await fs.readdir(dir, { withFileTypes: true })) {
+    const rel = prefix ? path.join(prefix, d.name) : d.name;
+    if (d.isDirectory()) out.push(...await listFiles(path.join(dir, d.name), rel));
+    else if (d.isFile()) out.push(rel);
+  }
+  return out;
+}
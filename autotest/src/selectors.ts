@@ -0,0 +1,92 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import type { Frame, FrameLocator, Locator, Page } from "playwright";
+import { z } from "zod";
+import { refSelector } from "./snapshot.js";
+
+// 目标 frame：iframe 选择器（数组表示逐层嵌套）、或按 frame name / URL（glob）匹配
+export const frameSchema = z.union([
+  z.string(),
+  z.array(z.string()).min(1),
+  z.object({ name: z.string().optional(), url: z.string().optional() })
+]).optional();
+export type FrameTarget = z.infer<typeof frameSchema>;
+
+// Playwright 支持的选择器引擎前缀；未带前缀时按 CSS（自动穿透 open shadow DOM）或 XPath 处理。
+// 带 :light 后缀的变体（如 css:light=）不穿透 shadow DOM
+const LIGHT_ENGINES = ["css", "xpath", "text", "id", "data-testid", "data-test-id", "data-test"];
+const ENGINES = new Set([
+  ...LIGHT_ENGINES, ...LIGHT_ENGINES.map((e) => `${e}:light`), "role",
+  "nth", "visible", "internal:control", "internal:has", "internal:has-not", "internal:has-text", "internal:has-not-text",
+  "internal:and", "internal:or", "internal:chain", "internal:label", "internal:text", "internal:role", "internal:testid",
+  "internal:attr", "internal:describe", "aria-ref"
+]);
+
+// 校验选择器语法：逐段检查 `>>` 链中的引擎前缀，避免拼写错误被当作 CSS 静默失败
+export function validateSelector(selector: string): void {
+  if (!selector.trim()) {
+    throw new McpError(ErrorCode.InvalidParams, "选择器不能为空");
+  }
+  for (const raw of selector.split(/\s*>>\s*/)) {
+    const part = raw.trim();
+    if (!part) {
+      throw new McpError(ErrorCode.InvalidParams, `选择器链中存在空片段: ${selector}`);
+    }
+    const m = /^([a-zA-Z][\w:-]*)\s*=/.exec(part);
+    if (m && !ENGINES.has(m[1])) {
+      throw new McpError(ErrorCode.InvalidParams, `未知选择器引擎 '${m[1]}'（支持 css=、xpath=、text=、id=、role=、data-testid= 等）: ${selector}`);
+    }
+    if (m && !part.slice(m[0].length).trim()) {
+      throw new McpError(ErrorCode.InvalidParams, `选择器引擎 '${m[1]}' 缺少内容: ${selector}`);
+    }
+  }
+}
+
+// 解析 frame 参数，返回可继续调用 locator() 的作用域（页面、Frame 或 FrameLocator）
+export function resolveScope(page: Page, frame?: FrameTarget): Page | Frame | FrameLocator {
+  if (frame === undefined) return page;
+  if (typeof frame === "string" || Array.isArray(frame)) {
+    const chain = typeof frame === "string" ? [frame] : frame;
+    let scope: Page | FrameLocator = page;
+    for (const sel of chain) {
+      validateSelector(sel);
+      scope = scope.frameLocator(sel);
+    }
+    return scope;
+  }
+  if (!frame.name && !frame.url) {
+    throw new McpError(ErrorCode.InvalidParams, "frame 需要提供选择器、name 或 url");
+  }
+  const found = page.frame({ name: frame.name, url: frame.url });
+  if (!found) {
+    throw new McpError(ErrorCode.InvalidRequest, `未找到 frame: ${JSON.stringify(frame)}`);
+  }
+  return found;
+}
+
+// 在（可选的）frame 作用域内定位元素
+export function locate(page: Page, selector: string, frame?: FrameTarget): Locator {
+  validateSelector(selector);
+  return resolveScope(page, frame).locator(selector);
+}
+
+// 工具的目标元素：selector 或 page_snapshot 返回的 ref（二选一）
+export type ElementTarget = { selector?: string; ref?: string; frame?: FrameTarget };
+
+export function locateTarget(page: Page, target: ElementTarget): Locator {
+  return locate(page, targetSelector(target), target.frame);
+}
+
+export function targetSelector(target: ElementTarget): string {
+  if (target.selector) return target.selector;
+  if (target.ref) {
+    if (!/^e\d+$/.test(target.ref)) {
+      throw new McpError(ErrorCode.InvalidParams, `无效的 ref: ${target.ref}（应为 page_snapshot 返回的 eN）`);
+    }
+    return refSelector(target.ref);
+  }
+  throw new McpError(ErrorCode.InvalidParams, "需要提供 selector 或 ref 参数");
+}
+
+export function describeTarget(target: ElementTarget): string {
+  return target.selector ?? `ref=${target.ref}`;
+}
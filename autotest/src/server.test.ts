@@ -0,0 +1,30 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { handlers, tools } from "./server.js";
+
+test("网络拦截工具均已注册，并可在套件步骤中通过校验", async () => {
+  const names = Object.values(tools).map((t) => t.name);
+  for (const name of ["network_route", "network_unroute", "network_har_record", "network_har_replay"]) {
+    assert.ok(names.includes(name as never), name);
+  }
+  const { content, isError } = await handlers.suite_validate({
+    suite: {
+      setup: [{ name: "network_har_replay", arguments: { path: "fixtures/shop.har", url: "**/api/**", notFound: "fallback" } }],
+      tests: [{
+        name: "mock",
+        steps: [
+          { name: "network_route", arguments: { url: "**/api/user", json: { name: "tester" }, times: 1 } },
+          { name: "network_route", arguments: { url: "\\.(png|jpg)$", regex: true, action: "abort", errorCode: "blockedbyclient" } },
+          { name: "network_unroute", arguments: {} }
+        ]
+      }],
+      teardown: [{ name: "network_har_record", arguments: { path: "out/shop.har" } }]
+    }
+  });
+  const result = JSON.parse(content[0].text!);
+  assert.deepEqual(result.errors, []);
+  assert.equal(isError, undefined);
+
+  const invalid = await handlers.suite_validate({ suite: { steps: [{ name: "network_route", arguments: { url: "**/x", action: "drop" } }] } });
+  assert.match(JSON.parse(invalid.content[0].text!).errors[0].message, /^network_route: action /);
+});
@@ -3,42 +3,158 @@ import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js"
 import {
   CallToolRequestSchema,
   ErrorCode,
+  ListResourcesRequestSchema,
   ListToolsRequestSchema,
-  McpError
+  McpError,
+  ReadResourceRequestSchema,
+  ServerNotification
 } from "@modelcontextprotocol/sdk/types.js";
-import { chromium, Browser, Page } from "playwright";
+import { chromium, firefox, webkit, devices, Browser, BrowserContext, BrowserContextOptions, Page, Route } from "playwright";
+import { AsyncLocalStorage } from "node:async_hooks";
 import fs from "node:fs/promises";
 import path from "node:path";
+import { realpathSync } from "node:fs";
+import { pathToFileURL } from "node:url";
 import { z } from "zod";
 import { zodToJsonSchema } from "zod-to-json-schema";
+import { compareScreenshots } from "./visual.js";
+import { startHttpTransport } from "./http.js";
+import { ArtifactResource, readArtifact, registerArtifact, resourceLink } from "./resources.js";
+import { describeTarget, frameSchema, locateTarget } from "./selectors.js";
+import { captureSnapshot, diffSnapshots } from "./snapshot.js";
+import { pageAssertSchema, runAssertion } from "./assertions.js";
+import { exportSpec, importSpec } from "./spec.js";
+import { AttemptResult, SuiteEvent, buildHtmlReport, buildJUnit, ProjectSuiteResult, RunResults, StepResult, SuiteResult, TestResult, toStepResult, writeAllureResults } from "./report.js";
+import { appendHistory, defaultHistoryFile, isQuarantined, readHistory, summarizeHistory, testStatus, toHistoryRuns } from "./history.js";
+import { abortScope, dataTestFields, DataRow, expandDataTests, filterTests, FlowRuntime, FlowStepRecord, Macro, runFlowSteps, shardTests, stepSchema, ToolStep } from "./flow.js";
+import { LocatorMap, resolveLocatorRefs } from "./locators.js";
+import { loadSuiteFile, messageOf, resolveIncludes, suiteFileFields, validateSuite } from "./suitefile.js";
+import { appendRecordedEvent, frameTargetOf, Recording, startRecording } from "./recorder.js";
+import { assertThrottlingSupported, collectPageMetrics, describeThrottling, installPerfObserver, PageMetrics, throttleContext, throttlingSchema } from "./perf.js";
+import { abortIfDisallowed, assertEvalAllowed, assertUrlAllowed, defaultWriteDir, installNetworkGuard, policy, readablePath, writablePath } from "./policy.js";
+import { A11Y_IMPACTS, A11yViolation, countByImpact, mergeViolations, runA11yAudit, violationsAbove } from "./a11y.js";
+import { attachPageLogCollectors, clearPageLogs, createPageLogs, failedRequests, PageLogs, recordDialog } from "./logs.js";
 
 type BrowserContextState = {
   browser: Browser | null;
   page: Page | null;
   pages: Map<string, Page>;
   currentPageId: string | null;
+  contexts: Map<string, ContextEntry>;
+  currentContextId: string | null;
+  routes: Map<string, RouteEntry>;
+  logs: WeakMap<Page, PageLogs>;
+  // 每个标签页最近一次 page_snapshot 的结果，用于 diff
+  snapshots: WeakMap<Page, string>;
+  dialogPolicy: DialogPolicy;
+  run: SuiteRunContext | null;
+  // recorder_start 开启的录制（同一会话同时只有一个）
+  recorder: Recording | null;
+  artifacts: Map<string, ArtifactResource>;
+  // 资源列表变化时通知客户端（由所属会话的 Server 设置）
+  onResourcesChanged: (() => void) | null;
+  // 并行 worker 的状态：浏览器归所属会话管理，browser_open / browser_close 不再启动或关闭它
+  sharedBrowser: boolean;
+  // test_suite_run 中每个测试开始/结束时回调（命令行运行器用于实时输出进度）
+  onSuiteEvent: ((event: SuiteEvent) => void) | null;
 };
 
-const state: BrowserContextState = {
-  browser: null,
-  page: null,
-  pages: new Map<string, Page>(),
-  currentPageId: null
+// 命名浏览器上下文及其创建参数（storage_state_load 重建上下文时复用）
+type ContextEntry = {
+  context: BrowserContext;
+  options: ContextOptions;
 };
 
+// 弹窗（alert/confirm/prompt/beforeunload）的处理策略，对所有标签页生效
+type DialogPolicy = {
+  action: "accept" | "dismiss";
+  promptText?: string;
+};
+
+// test_suite_run 执行期间的运行上下文，供 visual_assert 等工具写入产物
+type SuiteRunContext = {
+  artifactsDir: string;
+  baselineDir?: string;
+  updateBaselines: boolean;
+  // 当前测试尝试中 a11y_audit / a11y 断言发现的违规
+  a11y: A11yViolation[];
+  // 当前测试尝试中 page_metrics / perf_budget 断言采集的性能指标
+  metrics: PageMetrics[];
+  // isolation 为 context 时各测试新上下文的创建参数（首次使用时由当前上下文导出）
+  isolatedOptions?: ContextOptions;
+};
+
+// 已注册的网络拦截，key 为 network_route 返回的路由标识
+type RouteEntry = {
+  context: BrowserContext;
+  url: string | RegExp;
+  handler?: (route: Route) => Promise<void>;
+  // network_route 的剩余处理次数（重新安装时沿用）
+  times?: number;
+  // network_har_replay 的 HAR 路由（Playwright 不暴露其 handler）
+  replay?: { path: string; notFound: "abort" | "fallback" };
+  // network_har_record 不注册拦截，录制到上下文关闭为止
+  record?: true;
+};
+
+function createState(): BrowserContextState {
+  return {
+    browser: null,
+    page: null,
+    pages: new Map<string, Page>(),
+    currentPageId: null,
+    contexts: new Map<string, ContextEntry>(),
+    currentContextId: null,
+    routes: new Map<string, RouteEntry>(),
+    logs: new WeakMap<Page, PageLogs>(),
+    snapshots: new WeakMap<Page, string>(),
+    dialogPolicy: { action: "dismiss" },
+    run: null,
+    recorder: null,
+    artifacts: new Map<string, ArtifactResource>(),
+    onResourcesChanged: null,
+    sharedBrowser: false,
+    onSuiteEvent: null
+  };
+}
+
+// stdio 模式下唯一的会话状态；HTTP 模式下每个 MCP 会话各有一份，通过 sessionStore 绑定到请求
+const defaultState = createState();
+const sessionStore = new AsyncLocalStorage<BrowserContextState>();
+
+function currentState(): BrowserContextState {
+  return sessionStore.getStore() ?? defaultState;
+}
+
+// 当前工具调用的请求上下文：客户端取消请求时中止 signal；携带 progressToken 时 onSuiteEvent 发送进度通知
+type CallContext = {
+  signal: AbortSignal;
+  onSuiteEvent: ((event: SuiteEvent) => void) | null;
+};
+const callStore = new AsyncLocalStorage<CallContext>();
+
+// 套件事件同时交给会话监听器（命令行）与当前请求（进度通知）
+function emitSuiteEvent(event: SuiteEvent): void {
+  state.onSuiteEvent?.(event);
+  callStore.getStore()?.onSuiteEvent?.(event);
+}
+
+// 所有工具通过 state 访问当前请求所属会话的浏览器状态
+const state = new Proxy({} as BrowserContextState, {
+  get: (_, key) => currentState()[key as keyof BrowserContextState],
+  set: (_, key, value) => Reflect.set(currentState(), key, value)
+});
+
 let pageIdCounter = 1;
 function nextPageId(): string {
   const id = `page${pageIdCounter++}`;
   return id;
 }
 
-const server = new Server({
-  name: "mcp-web-autotest",
-  version: "0.1.0"
-});
-
-// 声明支持 tools 能力（必须在连接前注册）
-server.registerCapabilities({ tools: {} });
+let contextIdCounter = 1;
+function nextContextId(): string {
+  return `context${contextIdCounter++}`;
+}
 
 function getEnvBoolean(name: string, defaultValue: boolean): boolean {
   const v = process.env[name];
@@ -49,16 +165,54 @@ function getEnvBoolean(name: string, defaultValue: boolean): boolean {
   return defaultValue;
 }
 
+const browserTypeSchema = z.enum(["chromium", "firefox", "webkit"]);
+
+// 浏览器上下文参数：设备模拟（Playwright 设备描述，如 "iPhone 13"）、配色、语言、时区、地理位置、权限、额外请求头、storageState 文件、限速等
+const contextOptionsSchema = z.object({
+  device: z.string().optional(),
+  colorScheme: z.enum(["light", "dark", "no-preference"]).optional(),
+  reducedMotion: z.enum(["reduce", "no-preference"]).optional(),
+  locale: z.string().optional(),
+  timezoneId: z.string().optional(),
+  geolocation: z.object({ latitude: z.number(), longitude: z.number(), accuracy: z.number().optional() }).optional(),
+  permissions: z.array(z.string()).optional(),
+  extraHTTPHeaders: z.record(z.string()).optional(),
+  viewport: z.object({ width: z.number(), height: z.number() }).optional(),
+  userAgent: z.string().optional(),
+  storageState: z.string().optional(),
+  // 网络与 CPU 限速（仅 chromium），对该上下文的所有标签页生效
+  throttling: throttlingSchema.optional()
+});
+type ContextOptions = z.infer<typeof contextOptionsSchema>;
+
+// test_suite_run 的项目：同一套件在不同浏览器/设备组合上各执行一次
+const projectSchema = z.object({
+  name: z.string().optional(),
+  browserType: browserTypeSchema.optional(),
+  device: z.string().optional(),
+  colorScheme: contextOptionsSchema.shape.colorScheme,
+  reducedMotion: contextOptionsSchema.shape.reducedMotion,
+  throttling: contextOptionsSchema.shape.throttling
+});
+type Project = z.infer<typeof projectSchema>;
+
+const modifiersSchema = z.array(z.enum(["Alt", "Control", "ControlOrMeta", "Meta", "Shift"])).optional();
+
 // 工具定义
 const tools = {
   "browser_open": {
     name: "browser_open",
-    description: "启动 Chromium 浏览器，可选择无头模式",
+    description: "启动浏览器（chromium/firefox/webkit），可选择无头模式与设备模拟",
     inputSchema: z.object({
+      browserType: browserTypeSchema.optional(),
       headless: z.boolean().optional(),
+      device: z.string().optional(),
+      colorScheme: contextOptionsSchema.shape.colorScheme,
+      reducedMotion: contextOptionsSchema.shape.reducedMotion,
       disableExtensions: z.boolean().optional(),
       args: z.array(z.string()).optional(),
-      lang: z.string().optional()
+      lang: z.string().optional(),
+      throttling: contextOptionsSchema.shape.throttling
     })
   },
   "browser_close": {
@@ -73,35 +227,124 @@ const tools = {
   },
   "page_click": {
     name: "page_click",
-    description: "点击选择器对应的元素",
-    inputSchema: z.object({ selector: z.string(), timeoutMs: z.number().optional() })
+    description: "点击选择器对应的元素（可指定鼠标按键、点击次数与修饰键）",
+    inputSchema: z.object({
+      selector: z.string().optional(),
+      ref: z.string().optional(),
+      frame: frameSchema,
+      button: z.enum(["left", "right", "middle"]).optional(),
+      clickCount: z.number().optional(),
+      modifiers: modifiersSchema,
+      timeoutMs: z.number().optional()
+    })
+  },
+  "page_dblclick": {
+    name: "page_dblclick",
+    description: "双击选择器对应的元素",
+    inputSchema: z.object({ selector: z.string().optional(), ref: z.string().optional(), frame: frameSchema, modifiers: modifiersSchema, timeoutMs: z.number().optional() })
+  },
+  "page_hover": {
+    name: "page_hover",
+    description: "鼠标悬停在选择器对应的元素上",
+    inputSchema: z.object({ selector: z.string().optional(), ref: z.string().optional(), frame: frameSchema, modifiers: modifiersSchema, timeoutMs: z.number().optional() })
+  },
+  "keyboard_press": {
+    name: "keyboard_press",
+    description: "按下按键或组合键（如 Enter、Control+A、Shift+Tab），可指定聚焦的元素",
+    inputSchema: z.object({ key: z.string(), selector: z.string().optional(), ref: z.string().optional(), frame: frameSchema, count: z.number().optional(), delayMs: z.number().optional(), timeoutMs: z.number().optional() })
+  },
+  "page_select_option": {
+    name: "page_select_option",
+    description: "在下拉框中按 value/label/index 选择选项",
+    inputSchema: z.object({
+      selector: z.string().optional(),
+      ref: z.string().optional(),
+      frame: frameSchema,
+      values: z.array(z.string()).optional(),
+      labels: z.array(z.string()).optional(),
+      indexes: z.array(z.number()).optional(),
+      timeoutMs: z.number().optional()
+    })
+  },
+  "page_check": {
+    name: "page_check",
+    description: "勾选复选框或单选框",
+    inputSchema: z.object({ selector: z.string().optional(), ref: z.string().optional(), frame: frameSchema, timeoutMs: z.number().optional() })
+  },
+  "page_uncheck": {
+    name: "page_uncheck",
+    description: "取消勾选复选框",
+    inputSchema: z.object({ selector: z.string().optional(), ref: z.string().optional(), frame: frameSchema, timeoutMs: z.number().optional() })
+  },
+  "page_set_input_files": {
+    name: "page_set_input_files",
+    description: "为文件输入框设置本地文件（上传），files 为空则清空",
+    inputSchema: z.object({ selector: z.string().optional(), ref: z.string().optional(), frame: frameSchema, files: z.array(z.string()), timeoutMs: z.number().optional() })
+  },
+  "page_drag": {
+    name: "page_drag",
+    description: "将 source 元素拖放到 target 元素",
+    inputSchema: z.object({
+      source: z.string().optional(),
+      sourceRef: z.string().optional(),
+      target: z.string().optional(),
+      targetRef: z.string().optional(),
+      frame: frameSchema,
+      timeoutMs: z.number().optional()
+    })
+  },
+  "page_scroll_into_view": {
+    name: "page_scroll_into_view",
+    description: "将元素滚动到可见区域",
+    inputSchema: z.object({ selector: z.string().optional(), ref: z.string().optional(), frame: frameSchema, timeoutMs: z.number().optional() })
+  },
+  "dialog_policy": {
+    name: "dialog_policy",
+    description: "设置 alert/confirm/prompt 弹窗的处理策略（接受或取消，prompt 可填入文本）",
+    inputSchema: z.object({ action: z.enum(["accept", "dismiss"]), promptText: z.string().optional() })
+  },
+  "page_download": {
+    name: "page_download",
+    description: "点击元素触发下载并保存到产物目录，返回文件路径与大小",
+    inputSchema: z.object({ selector: z.string().optional(), ref: z.string().optional(), frame: frameSchema, dir: z.string().optional(), filename: z.string().optional(), timeoutMs: z.number().optional() })
   },
   "page_type": {
     name: "page_type",
     description: "在输入框选择器内输入文本（清空后输入）",
-    inputSchema: z.object({ selector: z.string(), text: z.string(), delayMs: z.number().optional(), clear: z.boolean().optional() })
+    inputSchema: z.object({ selector: z.string().optional(), ref: z.string().optional(), frame: frameSchema, text: z.string(), delayMs: z.number().optional(), clear: z.boolean().optional() })
   },
   "page_fill": {
     name: "page_fill",
     description: "在输入框选择器内填充文本（替换现有内容）",
-    inputSchema: z.object({ selector: z.string(), value: z.string() })
+    inputSchema: z.object({ selector: z.string().optional(), ref: z.string().optional(), frame: frameSchema, value: z.string() })
   },
   "page_assert": {
     name: "page_assert",
-    description: "断言：可见/隐藏/文本包含/计数/标题/URL/属性/值",
-    inputSchema: z.object({
-      kind: z.enum(["visible", "hidden", "text_contains", "count_is", "title_is", "title_contains", "url_contains", "attribute_is", "value_is"]).default("visible"),
-      selector: z.string(),
-      text: z.string().optional(),
-      count: z.number().optional(),
-      name: z.string().optional(),
-      timeoutMs: z.number().optional()
-    })
+    description: "带自动重试的断言：可见/隐藏/可用/勾选/焦点/文本/计数/标题/URL/属性/值/CSS/自定义谓词/日志与请求/无障碍/性能预算，支持 not、正则与软断言",
+    inputSchema: pageAssertSchema
   },
   "page_screenshot": {
     name: "page_screenshot",
-    description: "页面截图为 base64",
-    inputSchema: z.object({ fullPage: z.boolean().optional() })
+    description: "页面截图：保存到产物目录并返回资源链接（inline 为 true 时直接返回 base64 图片）",
+    inputSchema: z.object({ fullPage: z.boolean().optional(), inline: z.boolean().optional() })
+  },
+  "visual_assert": {
+    name: "visual_assert",
+    description: "视觉回归断言：页面或元素截图与命名基线逐像素比较，失败时输出 actual/expected/diff 图",
+    inputSchema: z.object({
+      name: z.string(),
+      selector: z.string().optional(),
+      ref: z.string().optional(),
+      frame: frameSchema,
+      fullPage: z.boolean().optional(),
+      mask: z.array(z.string()).optional(),
+      threshold: z.number().min(0).max(1).optional(),
+      maxDiffPixels: z.number().optional(),
+      maxDiffPercent: z.number().min(0).max(100).optional(),
+      baselineDir: z.string().optional(),
+      artifactsDir: z.string().optional(),
+      update: z.boolean().optional()
+    })
   },
   "page_eval": {
     name: "page_eval",
@@ -111,7 +354,7 @@ const tools = {
   "page_wait_for": {
     name: "page_wait_for",
     description: "等待选择器达到指定状态",
-    inputSchema: z.object({ selector: z.string(), state: z.enum(["visible", "hidden", "attached", "detached"]).optional(), timeoutMs: z.number().optional() })
+    inputSchema: z.object({ selector: z.string().optional(), ref: z.string().optional(), frame: frameSchema, state: z.enum(["visible", "hidden", "attached", "detached"]).optional(), timeoutMs: z.number().optional() })
   },
   "page_title_get": {
     name: "page_title_get",
@@ -126,18 +369,90 @@ const tools = {
   "page_text_get": {
     name: "page_text_get",
     description: "获取选择器的 textContent",
-    inputSchema: z.object({ selector: z.string(), timeoutMs: z.number().optional() })
+    inputSchema: z.object({ selector: z.string().optional(), ref: z.string().optional(), frame: frameSchema, timeoutMs: z.number().optional() })
   },
   "page_attribute_get": {
     name: "page_attribute_get",
     description: "获取选择器的属性值",
-    inputSchema: z.object({ selector: z.string(), name: z.string(), timeoutMs: z.number().optional() })
+    inputSchema: z.object({ selector: z.string().optional(), ref: z.string().optional(), frame: frameSchema, name: z.string(), timeoutMs: z.number().optional() })
+  },
+  "page_logs_get": {
+    name: "page_logs_get",
+    description: "获取标签页收集的控制台消息、页面异常、网络请求与弹窗记录（可仅返回错误/失败项）",
+    inputSchema: z.object({
+      id: z.string().optional(),
+      kinds: z.array(z.enum(["console", "errors", "requests", "dialogs"])).optional(),
+      onlyErrors: z.boolean().optional(),
+      clear: z.boolean().optional()
+    })
+  },
+  "a11y_audit": {
+    name: "a11y_audit",
+    description: "无障碍检查（WCAG）：对整页或指定元素执行规则集（替代文本、表单标签、对比度、标题层级、重复 id、ARIA 误用等），返回违规的影响级别、节点选择器与修复建议",
+    inputSchema: z.object({
+      selector: z.string().optional(),
+      ref: z.string().optional(),
+      frame: frameSchema,
+      rules: z.array(z.string()).optional(),
+      disableRules: z.array(z.string()).optional(),
+      maxNodes: z.number().optional(),
+      // 存在高于该级别的违规时工具返回错误
+      failAbove: z.enum(A11Y_IMPACTS).optional()
+    })
+  },
+  "page_metrics": {
+    name: "page_metrics",
+    description: "采集当前页面的性能指标：导航时序（TTFB、DOMContentLoaded、load）、Web Vitals（FCP、LCP、CLS、INP、TBT）、按类型统计的资源数量与传输大小、JS 堆用量",
+    inputSchema: z.object({
+      // 同时列出传输大小最大的前 N 个资源
+      topResources: z.number().int().positive().optional()
+    })
+  },
+  "page_snapshot": {
+    name: "page_snapshot",
+    description: "获取当前页面紧凑的无障碍树（角色、名称、状态），可交互元素带稳定 ref，可作为其它工具的 ref 参数；diff 为 true 时返回与上次快照的差异",
+    inputSchema: z.object({
+      frame: frameSchema,
+      interactiveOnly: z.boolean().optional(),
+      diff: z.boolean().optional(),
+      maxTextLength: z.number().optional()
+    })
+  },
+  "page_frames_list": {
+    name: "page_frames_list",
+    description: "列出当前页面的所有 frame（name、URL、父 frame、层级）",
+    inputSchema: z.object({})
   },
   "page_viewport": {
     name: "page_viewport",
     description: "设置视口大小",
     inputSchema: z.object({ width: z.number(), height: z.number(), deviceScaleFactor: z.number().optional() })
   },
+  "context_new": {
+    name: "context_new",
+    description: "新建命名浏览器上下文（独立 cookie/存储），并切换到其首个标签页",
+    inputSchema: contextOptionsSchema.extend({ id: z.string().optional() })
+  },
+  "context_switch": {
+    name: "context_switch",
+    description: "切换当前浏览器上下文",
+    inputSchema: z.object({ id: z.string() })
+  },
+  "context_close": {
+    name: "context_close",
+    description: "关闭浏览器上下文及其所有标签页",
+    inputSchema: z.object({ id: z.string().optional() })
+  },
+  "storage_state_save": {
+    name: "storage_state_save",
+    description: "将上下文的 cookie 与 localStorage 保存到文件",
+    inputSchema: z.object({ path: z.string(), id: z.string().optional() })
+  },
+  "storage_state_load": {
+    name: "storage_state_load",
+    description: "从文件加载 storageState：以原参数重建该上下文（不存在则新建）并切换过去",
+    inputSchema: z.object({ path: z.string(), id: z.string().optional() })
+  },
   "page_new": {
     name: "page_new",
     description: "新开标签页并返回 pageId",
@@ -160,100 +475,410 @@ const tools = {
   },
   "tracing_stop": {
     name: "tracing_stop",
-    description: "停止 tracing 并导出 zip（返回 base64 或保存到路径）",
+    description: "停止 tracing 并导出 zip（保存到指定路径或产物目录），返回资源链接",
     inputSchema: z.object({ path: z.string().optional() })
+  },
+  "recorder_start": {
+    name: "recorder_start",
+    description: "开始录制：打开有界面的浏览器（或使用当前页面），记录点击、输入、勾选、下拉选择、跳转，以及 Alt+点击拾取的断言",
+    inputSchema: z.object({
+      url: z.string().optional(),
+      browserType: browserTypeSchema.optional(),
+      headless: z.boolean().optional(),
+      // 密码框的输入以 ${env.PASSWORD} 代替（默认 true）
+      maskPasswords: z.boolean().optional()
+    })
+  },
+  "recorder_stop": {
+    name: "recorder_stop",
+    description: "停止录制并生成步骤：format 为 plan 时输出 test_plan_run 参数，为 suite 时输出 test_suite_run 的测试项；可写入文件供 test_plan_run_file 加载",
+    inputSchema: z.object({
+      format: z.enum(["plan", "suite"]).optional(),
+      name: z.string().optional(),
+      path: z.string().optional()
+    })
+  },
+  "network_route": {
+    name: "network_route",
+    description: "按 URL glob/正则拦截请求：返回静态内容、JSON 或文件（fulfill），中止（abort），或延迟后放行（continue）；返回路由标识",
+    inputSchema: z.object({
+      url: z.string(),
+      regex: z.boolean().optional(),
+      action: z.enum(["fulfill", "abort", "continue"]).optional(),
+      status: z.number().int().optional(),
+      body: z.string().optional(),
+      json: z.any().optional(),
+      // 以本地文件内容作为响应体
+      path: z.string().optional(),
+      contentType: z.string().optional(),
+      headers: z.record(z.string()).optional(),
+      delayMs: z.number().optional(),
+      // 只拦截前 times 次请求
+      times: z.number().int().positive().optional(),
+      errorCode: z.enum([
+        "aborted", "accessdenied", "addressunreachable", "blockedbyclient", "blockedbyresponse", "connectionaborted", "connectionclosed",
+        "connectionfailed", "connectionrefused", "connectionreset", "internetdisconnected", "namenotresolved", "timedout", "failed"
+      ]).optional()
+    })
+  },
+  "network_unroute": {
+    name: "network_unroute",
+    description: "移除 network_route / network_har_replay 注册的拦截（url 为返回的路由标识），不传 url 则移除全部",
+    inputSchema: z.object({ url: z.string().optional() })
+  },
+  "network_har_record": {
+    name: "network_har_record",
+    description: "把匹配 url 的请求录制到 HAR 文件（浏览器上下文关闭时写入）",
+    inputSchema: z.object({ path: z.string(), url: z.string().optional() })
+  },
+  "network_har_replay": {
+    name: "network_har_replay",
+    description: "基于 HAR 文件回放匹配 url 的请求；HAR 中没有的请求按 notFound 中止或放行",
+    inputSchema: z.object({ path: z.string(), url: z.string().optional(), notFound: z.enum(["abort", "fallback"]).optional() })
+  },
+  "spec_export": {
+    name: "spec_export",
+    description: "把测试计划/套件 JSON 转换为 Playwright Test 的 .spec.ts（setup/teardown 对应 beforeAll/afterAll，page_assert 对应 expect）",
+    inputSchema: z.object({
+      path: z.string().optional(),
+      suite: z.record(z.any()).optional(),
+      name: z.string().optional(),
+      outputPath: z.string().optional()
+    })
+  },
+  "spec_import": {
+    name: "spec_import",
+    description: "尽力把简单的 Playwright Test 规格文件转换回套件 JSON，无法识别的语句在 warnings 中列出",
+    inputSchema: z.object({ path: z.string(), outputPath: z.string().optional() })
   },
 	"test_plan_run": {
 		name: "test_plan_run",
-		description: "执行测试计划：按顺序调用多个工具步骤",
+		description: "执行测试计划：按顺序调用多个工具步骤，支持 if/repeat/while/try/forEach 控制流步骤、宏（macros）、具名定位器（locators）与 include",
 		inputSchema: z.object({
-			steps: z.array(
-				z.object({
-					name: z.string(),
-					arguments: z.record(z.any()).optional()
-				})
-			),
-			continueOnError: z.boolean().optional()
+			steps: z.array(stepSchema),
+			vars: z.record(z.any()).optional(),
+			continueOnError: z.boolean().optional(),
+			...suiteFileFields
 		})
   },
   "test_plan_run_file": {
     name: "test_plan_run_file",
-    description: "从 JSON 文件加载并执行测试计划或测试套件",
+    description: "从 JSON 文件加载并执行测试计划或测试套件（include 相对于该文件解析）",
     inputSchema: z.object({ path: z.string() })
   },
+  "suite_validate": {
+    name: "suite_validate",
+    description: "静态校验测试计划/套件（path 或 suite）：展开 include，检查步骤结构、宏调用与参数、定位器引用、数据文件，并按各工具的参数 schema 检查每个步骤，不启动浏览器",
+    inputSchema: z.object({
+      path: z.string().optional(),
+      suite: z.record(z.any()).optional()
+    })
+  },
   "test_suite_run": {
     name: "test_suite_run",
-    description: "执行测试套件（可含 setup/tests/teardown），支持 JUnit 报告",
+    description: "执行测试套件（可含 setup/beforeEach/tests/afterEach/teardown），支持控制流步骤、数据驱动测试（parameters/dataFile）、测试隔离与超时、并发 workers、分片（shard），输出 JUnit / HTML / Allure 报告；运行中按测试与步骤发送进度通知，可被取消",
     inputSchema: z.object({
-      setup: z.array(z.object({ name: z.string(), arguments: z.record(z.any()).optional() })).optional(),
-      tests: z.array(z.object({ name: z.string(), steps: z.array(z.object({ name: z.string(), arguments: z.record(z.any()).optional() })) })),
-      teardown: z.array(z.object({ name: z.string(), arguments: z.record(z.any()).optional() })).optional(),
+      // 套件名称：用于报告与运行历史（test_plan_run_file 默认取文件名）
+      name: z.string().optional(),
+      vars: z.record(z.any()).optional(),
+      ...suiteFileFields,
+      setup: z.array(stepSchema).optional(),
+      // 每个测试的每次尝试前后执行；afterEach 在测试失败后同样执行
+      beforeEach: z.array(stepSchema).optional(),
+      tests: z.array(z.object({ name: z.string(), steps: z.array(stepSchema), tags: z.array(z.string()).optional(), ...dataTestFields })),
+      afterEach: z.array(stepSchema).optional(),
+      teardown: z.array(stepSchema).optional(),
+      // context：每个测试使用新的浏览器上下文（带入 setup 后的 cookie/localStorage）；page：同一上下文中的新标签页；none（默认）：共享当前页面
+      isolation: z.enum(["context", "page", "none"]).optional(),
+      // 单个测试每次尝试（含 beforeEach/afterEach）的超时
+      testTimeoutMs: z.number().int().positive().optional(),
+      // 整个运行（含所有项目）的超时：到时中止当前测试、跳过剩余测试并执行 teardown
+      suiteTimeoutMs: z.number().int().positive().optional(),
       continueOnError: z.boolean().optional(),
       retries: z.number().optional(),
       junit: z.boolean().optional(),
       junitPath: z.string().optional(),
+      // 单文件 HTML 报告路径（内嵌失败截图与日志摘录）
+      htmlReport: z.string().optional(),
+      // Allure 结果目录（allure generate 的输入）
+      allureDir: z.string().optional(),
       autoBrowser: z.boolean().optional(),
       headless: z.boolean().optional(),
+      projects: z.array(projectSchema).optional(),
+      matrix: z.object({ browserTypes: z.array(browserTypeSchema).optional(), devices: z.array(z.string()).optional() }).optional(),
       artifactsDir: z.string().optional(),
       onFailureScreenshot: z.boolean().optional(),
-      traceOnFailure: z.boolean().optional()
+      traceOnFailure: z.boolean().optional(),
+      logsOnFailure: z.boolean().optional(),
+      baselineDir: z.string().optional(),
+      updateBaselines: z.boolean().optional(),
+      // 每个测试结束时采集当前页面的性能指标，记录到测试结果的 metrics
+      collectMetrics: z.boolean().optional(),
+      // 并发 worker 数：每个 worker 在独立的浏览器上下文中依次领取测试
+      workers: z.number().int().positive().optional(),
+      // perWorker：每个 worker 各执行一次 setup/teardown；storageState：setup 只执行一次，其 cookie/localStorage 共享给各 worker
+      workerSetup: z.enum(["perWorker", "storageState"]).optional(),
+      // 只执行名称（含标签）匹配该正则的测试
+      grep: z.string().optional(),
+      // 只执行带有任一标签的测试（"@smoke" 与 "smoke" 等价）
+      tag: z.array(z.string()).optional(),
+      // 只执行第 index 份（从 1 开始，共 total 份）
+      shard: z.object({ index: z.number().int().positive(), total: z.number().int().positive() }).optional(),
+      // 隔离的测试（完整名称、数据驱动测试的基础名或 /正则/）：照常执行，但失败不计入套件结果
+      quarantine: z.array(z.string()).optional(),
+      // 运行历史文件（JSON Lines），默认 MCP_HISTORY_FILE 或 ./autotest-history.jsonl；false 不记录
+      history: z.union([z.string(), z.literal(false)]).optional()
+    })
+  },
+  "test_history_query": {
+    name: "test_history_query",
+    description: "查询 test_suite_run 的运行历史：按测试统计通过率、不稳定（重试后通过）比例、耗时趋势与最近结果，不稳定的测试排在前面",
+    inputSchema: z.object({
+      path: z.string().optional(),
+      suite: z.string().optional(),
+      // 测试名称子串，/.../ 为正则
+      test: z.string().optional(),
+      lastRuns: z.number().int().positive().optional(),
+      since: z.string().optional(),
+      flakyOnly: z.boolean().optional(),
+      limit: z.number().int().positive().optional()
     })
   }
 } as const;
 
+type ToolName = keyof typeof tools;
+// 套件测试项（展开数据驱动前）
+type SuiteTest = z.infer<typeof tools.test_suite_run.inputSchema>["tests"][number];
+
+// 按名称查找工具定义（名称来自客户端请求或套件文件）
+function toolByName(name: string): (typeof tools)[ToolName] | undefined {
+  return Object.prototype.hasOwnProperty.call(tools, name) ? tools[name as ToolName] : undefined;
+}
+
 // 每个工具的执行实现
-const handlers: Record<string, (input: any) => Promise<{ content: Array<{ type: string; text?: string; data?: string; mimeType?: string }> }>> = {
+const handlers: Record<string, (input: any) => Promise<{ content: Array<{ type: string; text?: string; data?: string; mimeType?: string; uri?: string; name?: string; description?: string }>; isError?: boolean }>> = {
 	async browser_open(input) {
+		if (state.sharedBrowser) {
+			return { content: [{ type: "text", text: "browser shared by workers, reused" }] };
+		}
 		if (state.browser) {
 			await state.browser.close();
 		}
-		// const headless = input.headless ?? getEnvBoolean("MCP_HEADLESS", true);
-    const headless =false
+		state.routes.clear();
+		const headless = input.headless ?? getEnvBoolean("MCP_HEADLESS", true);
+		const browserType: z.infer<typeof browserTypeSchema> = input.browserType ?? "chromium";
+		if (input.device && !devices[input.device]) {
+			throw new McpError(ErrorCode.InvalidParams, `未知设备: ${input.device}`);
+		}
 		const launchArgs: string[] = [];
-		if (input.disableExtensions ?? true) {
+		// 以下为 Chromium 命令行参数，其它内核不适用
+		if (browserType === "chromium" && (input.disableExtensions ?? true)) {
 			launchArgs.push("--disable-extensions", "--disable-component-extensions-with-background-pages", "--disable-features=ExtensionsToolbarMenu");
 		}
-		if (input.lang) {
+		if (browserType === "chromium" && input.lang) {
 			launchArgs.push(`--lang=${input.lang}`);
 		}
 		if (Array.isArray(input.args) && input.args.length) {
 			launchArgs.push(...input.args);
 		}
-		state.browser = await chromium.launch({ headless, args: launchArgs });
-		const context = await state.browser.newContext();
-		state.page = await context.newPage();
+		if (input.throttling) assertThrottlingSupported(browserType);
+		const launcher = { chromium, firefox, webkit }[browserType];
+		state.browser = await launcher.launch({ headless, args: launchArgs });
 		state.pages.clear();
-		const defaultId = nextPageId();
-		state.pages.set(defaultId, state.page);
-		state.currentPageId = defaultId;
-		return { content: [{ type: "text", text: `browser opened (headless=${headless})` }] };
+		state.contexts.clear();
+		await openContext("default", {
+			device: input.device,
+			colorScheme: input.colorScheme,
+			reducedMotion: input.reducedMotion,
+			locale: browserType === "chromium" ? undefined : input.lang,
+			throttling: input.throttling
+		});
+		const emulation = `${input.device ? `, device=${input.device}` : ""}${input.throttling ? `, throttling=${describeThrottling(input.throttling)}` : ""}`;
+		return { content: [{ type: "text", text: `browser opened (${browserType}, headless=${headless}${emulation})` }] };
 	},
 	async browser_close() {
+		if (state.sharedBrowser) {
+			return { content: [{ type: "text", text: "browser shared by workers, kept open" }] };
+		}
 		if (state.browser) {
 			await state.browser.close();
 			state.browser = null;
 			state.page = null;
       state.pages.clear();
       state.currentPageId = null;
+      state.contexts.clear();
+      state.currentContextId = null;
+      state.routes.clear();
 		}
 		return { content: [{ type: "text", text: "browser closed" }] };
 	},
 	async page_goto(input) {
 		const page = ensurePage();
+		assertUrlAllowed(input.url, "page_goto");
 		await page.goto(input.url, { waitUntil: input.waitUntil ?? "domcontentloaded" });
 		return { content: [{ type: "text", text: `navigated: ${input.url}` }] };
 	},
 	async page_click(input) {
 		const page = ensurePage();
-		await page.click(input.selector, { timeout: input.timeoutMs ?? 15000 });
-		return { content: [{ type: "text", text: `clicked: ${input.selector}` }] };
+		await locateTarget(page, input).first().click({ button: input.button, clickCount: input.clickCount, modifiers: input.modifiers, timeout: input.timeoutMs ?? 15000 });
+		return { content: [{ type: "text", text: `clicked: ${describeTarget(input)}` }] };
 	},
+  async page_dblclick(input) {
+    const page = ensurePage();
+    await locateTarget(page, input).first().dblclick({ modifiers: input.modifiers, timeout: input.timeoutMs ?? 15000 });
+    return { content: [{ type: "text", text: `double clicked: ${describeTarget(input)}` }] };
+  },
+  async page_hover(input) {
+    const page = ensurePage();
+    await locateTarget(page, input).first().hover({ modifiers: input.modifiers, timeout: input.timeoutMs ?? 15000 });
+    return { content: [{ type: "text", text: `hovered: ${describeTarget(input)}` }] };
+  },
+  async keyboard_press(input) {
+    const page = ensurePage();
+    for (let i = 0; i < (input.count ?? 1); i++) {
+      if (input.selector || input.ref) {
+        await locateTarget(page, input).first().press(input.key, { delay: input.delayMs, timeout: input.timeoutMs ?? 15000 });
+      } else {
+        await page.keyboard.press(input.key, { delay: input.delayMs });
+      }
+    }
+    return { content: [{ type: "text", text: `pressed: ${input.key}` }] };
+  },
+  async page_select_option(input) {
+    const page = ensurePage();
+    const options = [
+      ...(input.values ?? []).map((value: string) => ({ value })),
+      ...(input.labels ?? []).map((label: string) => ({ label })),
+      ...(input.indexes ?? []).map((index: number) => ({ index }))
+    ];
+    if (!options.length) {
+      throw new McpError(ErrorCode.InvalidParams, "需要提供 values、labels 或 indexes");
+    }
+    const selected = await locateTarget(page, input).first().selectOption(options, { timeout: input.timeoutMs ?? 15000 });
+    return { content: [{ type: "text", text: JSON.stringify(selected) }] };
+  },
+  async page_check(input) {
+    const page = ensurePage();
+    await locateTarget(page, input).first().check({ timeout: input.timeoutMs ?? 15000 });
+    return { content: [{ type: "text", text: `checked: ${describeTarget(input)}` }] };
+  },
+  async page_uncheck(input) {
+    const page = ensurePage();
+    await locateTarget(page, input).first().uncheck({ timeout: input.timeoutMs ?? 15000 });
+    return { content: [{ type: "text", text: `unchecked: ${describeTarget(input)}` }] };
+  },
+  async page_set_input_files(input) {
+    const page = ensurePage();
+    const files = input.files.map((f: string) => readablePath(f, "page_set_input_files"));
+    for (const f of files) {
+      try {
+        await fs.access(f);
+      } catch {
+        throw new McpError(ErrorCode.InvalidParams, `文件不存在: ${f}`);
+      }
+    }
+    await locateTarget(page, input).first().setInputFiles(files, { timeout: input.timeoutMs ?? 15000 });
+    return { content: [{ type: "text", text: `set ${files.length} file(s) on ${describeTarget(input)}` }] };
+  },
+  async page_drag(input) {
+    const page = ensurePage();
+    const source = { selector: input.source, ref: input.sourceRef, frame: input.frame };
+    const target = { selector: input.target, ref: input.targetRef, frame: input.frame };
+    await locateTarget(page, source).first().dragTo(locateTarget(page, target).first(), { timeout: input.timeoutMs ?? 15000 });
+    return { content: [{ type: "text", text: `dragged ${describeTarget(source)} -> ${describeTarget(target)}` }] };
+  },
+  async page_scroll_into_view(input) {
+    const page = ensurePage();
+    await locateTarget(page, input).first().scrollIntoViewIfNeeded({ timeout: input.timeoutMs ?? 15000 });
+    return { content: [{ type: "text", text: `scrolled into view: ${describeTarget(input)}` }] };
+  },
+  async dialog_policy(input) {
+    state.dialogPolicy = { action: input.action, promptText: input.promptText };
+    return { content: [{ type: "text", text: `dialog policy: ${input.action}` }] };
+  },
+  async page_download(input) {
+    const page = ensurePage();
+    const timeout = input.timeoutMs ?? 30000;
+    const [download] = await Promise.all([
+      page.waitForEvent("download", { timeout }),
+      locateTarget(page, input).first().click({ timeout })
+    ]);
+    const dir = writablePath(input.dir ?? path.join(artifactsDirFor(), "downloads"), "page_download");
+    await fs.mkdir(dir, { recursive: true });
+    const file = path.join(dir, sanitizeFilename(input.filename ?? download.suggestedFilename()));
+    await download.saveAs(file);
+    const { size } = await fs.stat(file);
+    const entry = addArtifact(file, `下载: ${download.url()}`);
+    return { content: [{ type: "text", text: JSON.stringify({ path: file, size, suggestedFilename: download.suggestedFilename(), url: download.url() }) }, resourceLink(entry)] };
+  },
+  async context_new(input) {
+    ensurePage();
+    const { id: requested, ...options } = input;
+    if (options.device && !devices[options.device]) {
+      throw new McpError(ErrorCode.InvalidParams, `未知设备: ${options.device}`);
+    }
+    const id = requested ?? nextContextId();
+    if (state.contexts.has(id)) {
+      throw new McpError(ErrorCode.InvalidRequest, `contextId 已存在: ${id}`);
+    }
+    if (options.storageState) options.storageState = readablePath(options.storageState, "context_new");
+    await openContext(id, options);
+    return { content: [{ type: "text", text: id }] };
+  },
+  async context_switch(input) {
+    const entry = state.contexts.get(input.id);
+    if (!entry) {
+      throw new McpError(ErrorCode.InvalidRequest, `未知 contextId: ${input.id}`);
+    }
+    const pageId = findPageId(entry.context);
+    if (pageId) {
+      state.page = state.pages.get(pageId)!;
+      state.currentPageId = pageId;
+    } else {
+      const page = await entry.context.newPage();
+      const newId = registerPage(page);
+      state.page = page;
+      state.currentPageId = newId;
+    }
+    state.currentContextId = input.id;
+    return { content: [{ type: "text", text: `switched to context ${input.id}` }] };
+  },
+  async context_close(input) {
+    const id = input.id ?? state.currentContextId;
+    if (!id || !state.contexts.has(id)) {
+      throw new McpError(ErrorCode.InvalidRequest, `未知 contextId: ${id}`);
+    }
+    await closeContext(id);
+    return { content: [{ type: "text", text: `closed context ${id}` }] };
+  },
+  async storage_state_save(input) {
+    const context = resolveContext(input.id);
+    const file = writablePath(input.path, "storage_state_save");
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await context.storageState({ path: file });
+    return { content: [{ type: "text", text: `storage state saved: ${input.path}` }] };
+  },
+  async storage_state_load(input) {
+    ensurePage();
+    const file = readablePath(input.path, "storage_state_load");
+    try {
+      await fs.access(file);
+    } catch {
+      throw new McpError(ErrorCode.InvalidParams, `storageState 文件不存在: ${input.path}`);
+    }
+    const id = input.id ?? state.currentContextId ?? "default";
+    const previous = state.contexts.get(id);
+    if (previous) {
+      await closeContext(id);
+    }
+    await openContext(id, { ...(previous?.options ?? {}), storageState: file });
+    return { content: [{ type: "text", text: `storage state loaded into ${id}` }] };
+  },
   async page_new(input) {
     const page = ensurePage();
     const context = page.context();
     const newPage = await context.newPage();
-    const id = input.id ?? nextPageId();
-    state.pages.set(id, newPage);
+    const id = registerPage(newPage, input.id);
     state.page = newPage;
     state.currentPageId = id;
     return { content: [{ type: "text", text: id }] };
@@ -265,6 +890,7 @@ const handlers: Record<string, (input: any) => Promise<{ content: Array<{ type:
     }
     state.page = target;
     state.currentPageId = input.id;
+    state.currentContextId = findContextId(target.context());
     return { content: [{ type: "text", text: `switched to ${input.id}` }] };
   },
   async page_close(input) {
@@ -279,25 +905,83 @@ const handlers: Record<string, (input: any) => Promise<{ content: Array<{ type:
     await p.close();
     state.pages.delete(id);
     if (state.currentPageId === id) {
-      const next = state.pages.keys().next().value as string | undefined;
+      // 优先切换到同一上下文中的其它标签页
+      const next = findPageId(p.context()) ?? (state.pages.keys().next().value as string | undefined);
       state.currentPageId = next ?? null;
       state.page = next ? state.pages.get(next)! : null;
+      state.currentContextId = state.page ? findContextId(state.page.context()) : null;
     }
     return { content: [{ type: "text", text: `closed ${id}` }] };
   },
 	async page_type(input) {
 		const page = ensurePage();
+		const el = locateTarget(page, input).first();
 		if (input.clear) {
-			await page.fill(input.selector, "");
+			await el.fill("");
 		}
-		await page.type(input.selector, input.text, { delay: input.delayMs });
-		return { content: [{ type: "text", text: `typed into ${input.selector}` }] };
+		await el.pressSequentially(input.text, { delay: input.delayMs });
+		return { content: [{ type: "text", text: `typed into ${describeTarget(input)}` }] };
 	},
 	async page_fill(input) {
 		const page = ensurePage();
-		await page.fill(input.selector, input.value);
-		return { content: [{ type: "text", text: `filled ${input.selector}` }] };
+		await locateTarget(page, input).first().fill(input.value);
+		return { content: [{ type: "text", text: `filled ${describeTarget(input)}` }] };
 	},
+  async page_logs_get(input) {
+    ensurePage();
+    const page = input.id ? state.pages.get(input.id) : state.page;
+    if (!page) {
+      throw new McpError(ErrorCode.InvalidRequest, `未知 pageId: ${input.id}`);
+    }
+    const logs = pageLogs(page);
+    const kinds: string[] = input.kinds ?? ["console", "errors", "requests", "dialogs"];
+    const out: Record<string, unknown> = {};
+    if (kinds.includes("console")) out.console = input.onlyErrors ? logs.console.filter((c) => c.type === "error") : [...logs.console];
+    if (kinds.includes("errors")) out.errors = [...logs.errors];
+    if (kinds.includes("requests")) out.requests = input.onlyErrors ? failedRequests(logs) : [...logs.requests];
+    if (kinds.includes("dialogs")) out.dialogs = [...logs.dialogs];
+    if (input.clear) clearPageLogs(logs);
+    return { content: [{ type: "text", text: JSON.stringify(out) }] };
+  },
+  async page_snapshot(input) {
+    const page = ensurePage();
+    const root = locateTarget(page, { selector: ":root", frame: input.frame }).first();
+    const snapshot = await captureSnapshot(root, { interactiveOnly: input.interactiveOnly, maxTextLength: input.maxTextLength });
+    const previous = state.snapshots.get(page);
+    state.snapshots.set(page, snapshot);
+    const header = `url: ${page.url()}\ntitle: ${await page.title()}`;
+    if (input.diff && previous !== undefined) {
+      const changes = diffSnapshots(previous, snapshot);
+      return { content: [{ type: "text", text: `${header}\n${changes ? `changes:\n${changes}` : "no changes"}` }] };
+    }
+    return { content: [{ type: "text", text: `${header}\n${snapshot}` }] };
+  },
+  async a11y_audit(input) {
+    const page = ensurePage();
+    const root = locateTarget(page, { selector: input.selector ?? (input.ref ? undefined : ":root"), ref: input.ref, frame: input.frame }).first();
+    const violations = await runA11yAudit(root, { rules: input.rules, disableRules: input.disableRules, maxNodes: input.maxNodes });
+    if (state.run) mergeViolations(state.run.a11y, violations);
+    const report = { url: page.url(), scope: input.selector || input.ref ? describeTarget(input) : "page", counts: countByImpact(violations), violations };
+    if (input.failAbove && violationsAbove(violations, input.failAbove).length) {
+      return { content: [{ type: "text", text: JSON.stringify(report) }], isError: true };
+    }
+    return { content: [{ type: "text", text: JSON.stringify(report) }] };
+  },
+  async page_metrics(input) {
+    const page = ensurePage();
+    const metrics = await collectPageMetrics(page, { topResources: input.topResources });
+    if (state.run) state.run.metrics.push(metrics);
+    return { content: [{ type: "text", text: JSON.stringify(metrics) }] };
+  },
+  async page_frames_list() {
+    const page = ensurePage();
+    const frames = page.frames().map((f) => {
+      let depth = 0;
+      for (let p = f.parentFrame(); p; p = p.parentFrame()) depth++;
+      return { name: f.name(), url: f.url(), parentUrl: f.parentFrame()?.url() ?? null, depth, isMain: f === page.mainFrame(), detached: f.isDetached() };
+    });
+    return { content: [{ type: "text", text: JSON.stringify(frames) }] };
+  },
   async page_viewport(input) {
     const page = ensurePage();
     await page.setViewportSize({ width: input.width, height: input.height });
@@ -305,84 +989,78 @@ const handlers: Record<string, (input: any) => Promise<{ content: Array<{ type:
   },
   async page_assert(input) {
 		const page = ensurePage();
-    if (input.kind === "visible") {
-      await page.waitForSelector(input.selector, { state: "visible", timeout: input.timeoutMs ?? 15000 });
-      return { content: [{ type: "text", text: `assert visible: ${input.selector}` }] };
-    }
-    if (input.kind === "hidden") {
-      await page.waitForSelector(input.selector, { state: "hidden", timeout: input.timeoutMs ?? 15000 });
-      return { content: [{ type: "text", text: `assert hidden: ${input.selector}` }] };
-    }
-    if (input.kind === "text_contains") {
-      if (!input.text) {
-        throw new McpError(ErrorCode.InvalidParams, "text_contains 需要提供 text 参数");
-      }
-      await page.waitForFunction(
-        ([selector, expected]) => {
-          const el = document.querySelector(selector as string);
-          return !!el && el.textContent?.includes(expected as string);
-        },
-        [input.selector, input.text],
-        { timeout: input.timeoutMs ?? 15000 }
-      );
-      return { content: [{ type: "text", text: `assert text contains on ${input.selector}` }] };
-    }
-    if (input.kind === "count_is") {
-      const count = await page.locator(input.selector).count();
-      if (count !== input.count) {
-        throw new McpError(ErrorCode.InvalidRequest, `count ${count} !== ${input.count}`);
-      }
-      return { content: [{ type: "text", text: `assert count ${count}` }] };
-    }
-    if (input.kind === "title_is") {
-      const title = await page.title();
-      if (title !== input.text) {
-        throw new McpError(ErrorCode.InvalidRequest, `title '${title}' !== '${input.text}'`);
-      }
-      return { content: [{ type: "text", text: `assert title is '${input.text}'` }] };
-    }
-    if (input.kind === "title_contains") {
-      const title = await page.title();
-      if (!input.text || !title.includes(input.text)) {
-        throw new McpError(ErrorCode.InvalidRequest, `title '${title}' not contains '${input.text}'`);
+    try {
+      const text = await runAssertion(page, input, () => pageLogs(page), (violations) => {
+        if (state.run) mergeViolations(state.run.a11y, violations);
+      }, (metrics) => state.run?.metrics.push(metrics));
+      return { content: [{ type: "text", text }] };
+    } catch (e: any) {
+      // 软断言：不中断执行，以 isError 结果交由步骤执行器记录
+      if (input.soft && e instanceof McpError && e.code === ErrorCode.InvalidRequest) {
+        return { content: [{ type: "text", text: `soft ${e.message}` }], isError: true };
       }
-      return { content: [{ type: "text", text: `assert title contains '${input.text}'` }] };
+      throw e;
     }
-    if (input.kind === "url_contains") {
-      const url = page.url();
-      if (!input.text || !url.includes(input.text)) {
-        throw new McpError(ErrorCode.InvalidRequest, `url '${url}' not contains '${input.text}'`);
-      }
-      return { content: [{ type: "text", text: `assert url contains '${input.text}'` }] };
-    }
-    if (input.kind === "attribute_is") {
-      const el = page.locator(input.selector).first();
-      await el.waitFor({ state: "attached", timeout: input.timeoutMs ?? 15000 });
-      const val = await el.getAttribute(input.name!);
-      if (val !== input.text) {
-        throw new McpError(ErrorCode.InvalidRequest, `attribute '${input.name}' = '${val}' !== '${input.text}'`);
-      }
-      return { content: [{ type: "text", text: `assert attribute '${input.name}' is '${input.text}'` }] };
-    }
-    if (input.kind === "value_is") {
-      const el = page.locator(input.selector).first();
-      await el.waitFor({ state: "attached", timeout: input.timeoutMs ?? 15000 });
-      const val = await el.inputValue();
-      if (val !== input.text) {
-        throw new McpError(ErrorCode.InvalidRequest, `value '${val}' !== '${input.text}'`);
-      }
-      return { content: [{ type: "text", text: `assert value is '${input.text}'` }] };
-    }
-    return { content: [{ type: "text", text: "assert noop" }] };
 	},
 	async page_screenshot(input) {
 		const page = ensurePage();
 		const buffer = await page.screenshot({ fullPage: input.fullPage ?? false, type: "png" });
-		const b64 = buffer.toString("base64");
-		return { content: [{ type: "image", data: b64, mimeType: "image/png" }] } as any;
+		if (input.inline) {
+			const b64 = buffer.toString("base64");
+			return { content: [{ type: "image", data: b64, mimeType: "image/png" }] };
+		}
+		const dir = writablePath(artifactsDirFor(), "page_screenshot");
+		await fs.mkdir(dir, { recursive: true });
+		const file = path.join(dir, `screenshot_${Date.now()}.png`);
+		await fs.writeFile(file, buffer);
+		const entry = addArtifact(file, "页面截图");
+		return { content: [{ type: "text", text: `screenshot saved: ${file}` }, resourceLink(entry)] };
 	},
+  async visual_assert(input) {
+    const page = ensurePage();
+    const baselineDir = writablePath(input.baselineDir ?? state.run?.baselineDir ?? process.env.MCP_BASELINE_DIR ?? defaultWriteDir("baselines"), "visual_assert");
+    const artifactsDir = writablePath(input.artifactsDir ?? artifactsDirFor(), "visual_assert");
+    const update = input.update ?? state.run?.updateBaselines ?? getEnvBoolean("MCP_UPDATE_BASELINES", false);
+    const baseName = sanitizeFilename(input.name);
+    const baselineFile = path.join(baselineDir, `${baseName}.png`);
+    const mask = (input.mask ?? []).map((sel: string) => locateTarget(page, { selector: sel, frame: input.frame }));
+    const shotOptions = { type: "png" as const, mask, animations: "disabled" as const, caret: "hide" as const };
+    const actual = input.selector || input.ref
+      ? await locateTarget(page, input).first().screenshot(shotOptions)
+      : await page.screenshot({ ...shotOptions, fullPage: input.fullPage ?? false });
+    let expected: Buffer | null = null;
+    try { expected = await fs.readFile(baselineFile); } catch { /* 基线不存在 */ }
+    if (update || !expected) {
+      await fs.mkdir(baselineDir, { recursive: true });
+      await fs.writeFile(baselineFile, actual);
+      return { content: [{ type: "text", text: `baseline ${expected ? "updated" : "created"}: ${baselineFile}` }] };
+    }
+    const cmp = compareScreenshots(actual, expected, { threshold: input.threshold });
+    const percent = cmp.diffRatio * 100;
+    const pass = !cmp.sizeMismatch
+      && cmp.diffPixels <= (input.maxDiffPixels ?? (input.maxDiffPercent === undefined ? 0 : Infinity))
+      && percent <= (input.maxDiffPercent ?? 100);
+    if (pass) {
+      return { content: [{ type: "text", text: `visual match '${input.name}': ${cmp.diffPixels} px (${percent.toFixed(3)}%)` }] };
+    }
+    await fs.mkdir(artifactsDir, { recursive: true });
+    const attachments = [
+      path.join(artifactsDir, `${baseName}-actual.png`),
+      path.join(artifactsDir, `${baseName}-expected.png`)
+    ];
+    await fs.writeFile(attachments[0], actual);
+    await fs.writeFile(attachments[1], expected);
+    if (cmp.diff) {
+      attachments.push(path.join(artifactsDir, `${baseName}-diff.png`));
+      await fs.writeFile(attachments[2], cmp.diff);
+    }
+    for (const file of attachments) addArtifact(file, `visual '${input.name}'`);
+    const reason = cmp.sizeMismatch ? "截图尺寸与基线不一致" : `差异 ${cmp.diffPixels} px (${percent.toFixed(3)}%) 超出阈值`;
+    throw new McpError(ErrorCode.InvalidRequest, `visual '${input.name}' 不匹配：${reason}`, { attachments });
+  },
 	async page_eval(input) {
 		const page = ensurePage();
+		assertEvalAllowed(input.expression, "page_eval");
 		const result = await page.evaluate((expression) => {
 			// eslint-disable-next-line no-new-func
 			return Function(`"use strict"; return (${expression});`)();
@@ -396,20 +1074,144 @@ const handlers: Record<string, (input: any) => Promise<{ content: Array<{ type:
   },
   async tracing_stop(input) {
     const page = ensurePage();
-    if (input.path) {
-      await page.context().tracing.stop({ path: input.path });
-      return { content: [{ type: "text", text: `trace saved: ${input.path}` }] };
+    const file = writablePath(input.path ?? path.join(artifactsDirFor(), `trace_${Date.now()}.zip`), "tracing_stop");
+    await fs.mkdir(path.dirname(path.resolve(file)), { recursive: true });
+    await page.context().tracing.stop({ path: file });
+    const entry = addArtifact(file, "Playwright trace");
+    return { content: [{ type: "text", text: `trace saved: ${file}` }, resourceLink(entry)] };
+  },
+  async recorder_start(input) {
+    if (state.recorder) {
+      throw new McpError(ErrorCode.InvalidRequest, "录制已在进行中，请先调用 recorder_stop");
+    }
+    if (!state.browser) {
+      await handlers.browser_open({ headless: input.headless ?? false, browserType: input.browserType });
     }
-    const tmp = `trace_${Date.now()}.zip`;
-    await page.context().tracing.stop({ path: tmp });
-    const buf = await fs.readFile(tmp);
-    const b64 = buf.toString("base64");
-    return { content: [{ type: "text", text: b64 }] };
+    const page = ensurePage();
+    const recording: Recording = { steps: [], maskPasswords: input.maskPasswords ?? true, lastActionAt: 0, lastUrl: null, dispose: () => {} };
+    // 绑定回调不在请求的异步上下文中执行，需显式捕获所属会话
+    const session = currentState();
+    await startRecording(page.context(), recording, (event, frame) => {
+      if (session.recorder !== recording) return;
+      appendRecordedEvent(recording, event, frameTargetOf(frame));
+    });
+    state.recorder = recording;
+    if (input.url) {
+      assertUrlAllowed(input.url, "recorder_start");
+      await page.goto(input.url, { waitUntil: "domcontentloaded" });
+    } else if (/^https?:|^file:/.test(page.url())) {
+      recording.steps.push({ name: "page_goto", arguments: { url: page.url() } });
+      recording.lastUrl = page.url();
+    }
+    return { content: [{ type: "text", text: `recording started: ${page.url()}（Alt+点击拾取文本断言，Alt+Shift+点击拾取可见断言）` }] };
+  },
+  async recorder_stop(input) {
+    const recording = state.recorder;
+    if (!recording) {
+      throw new McpError(ErrorCode.InvalidRequest, "当前没有进行中的录制");
+    }
+    recording.dispose();
+    state.recorder = null;
+    const steps = recording.steps;
+    const payload = input.format === "suite"
+      ? { name: input.name ?? `recorded ${new Date().toISOString()}`, steps }
+      : { steps };
+    if (!input.path) {
+      return { content: [{ type: "text", text: JSON.stringify(payload, null, 2) }] };
+    }
+    // 套件测试项包装为 { tests: [...] }，使文件可直接由 test_plan_run_file 加载
+    const file = writablePath(input.path, "recorder_stop");
+    await fs.mkdir(path.dirname(path.resolve(file)), { recursive: true });
+    await fs.writeFile(file, JSON.stringify(input.format === "suite" ? { tests: [payload] } : payload, null, 2), "utf-8");
+    const entry = addArtifact(file, "录制的测试步骤");
+    return { content: [{ type: "text", text: JSON.stringify(payload, null, 2) }, resourceLink(entry)] };
+  },
+  async network_route(input) {
+    const context = ensurePage().context();
+    const key = input.regex ? `/${input.url}/` : input.url;
+    if (state.routes.has(key)) {
+      await handlers.network_unroute({ url: key });
+    }
+    const fulfillPath = input.path ? readablePath(input.path, "network_route") : undefined;
+    const url = input.regex ? new RegExp(input.url) : input.url;
+    const handler = async (route: Route) => {
+      if (input.delayMs) await sleep(input.delayMs);
+      if (input.action === "abort") {
+        await route.abort(input.errorCode ?? "failed");
+        return;
+      }
+      if (input.action === "continue") {
+        // 放行的请求同样受源白名单约束
+        if (await abortIfDisallowed(route, "network_route")) return;
+        await route.continue();
+        return;
+      }
+      if (fulfillPath) {
+        await route.fulfill({ status: input.status ?? 200, path: fulfillPath, contentType: input.contentType, headers: input.headers });
+        return;
+      }
+      if (input.json !== undefined) {
+        await route.fulfill({ status: input.status ?? 200, json: input.json, headers: input.headers });
+        return;
+      }
+      await route.fulfill({ status: input.status ?? 200, body: input.body ?? "", contentType: input.contentType, headers: input.headers });
+    };
+    const entry: RouteEntry = { context, url, times: input.times };
+    entry.handler = async (route: Route) => {
+      if (entry.times !== undefined) entry.times--;
+      await handler(route);
+    };
+    await context.route(url, entry.handler, { times: input.times });
+    state.routes.set(key, entry);
+    return { content: [{ type: "text", text: key }] };
+  },
+  async network_unroute(input) {
+    const keys = input.url ? [input.url] : Array.from(state.routes.keys());
+    if (input.url && !state.routes.has(input.url)) {
+      throw new McpError(ErrorCode.InvalidRequest, `未知路由: ${input.url}`);
+    }
+    for (const key of keys) {
+      const entry = state.routes.get(key)!;
+      state.routes.delete(key);
+      try {
+        if (entry.handler) {
+          await entry.context.unroute(entry.url, entry.handler);
+        } else if (entry.replay) {
+          await reinstallRoutes(entry.context);
+        }
+      } catch {/* context 已关闭 */}
+    }
+    return { content: [{ type: "text", text: `unrouted ${keys.length}` }] };
+  },
+  async network_har_record(input) {
+    const context = ensurePage().context();
+    const file = writablePath(input.path, "network_har_record");
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    const url = input.url ?? "**/*";
+    await context.routeFromHAR(file, { url, update: true, updateContent: "embed", updateMode: "full" });
+    const key = `har:${input.path}`;
+    state.routes.set(key, { context, url, record: true });
+    return { content: [{ type: "text", text: key }] };
+  },
+  async network_har_replay(input) {
+    const context = ensurePage().context();
+    const file = readablePath(input.path, "network_har_replay");
+    try {
+      await fs.access(file);
+    } catch {
+      throw new McpError(ErrorCode.InvalidParams, `HAR 文件不存在: ${input.path}`);
+    }
+    const url = input.url ?? "**/*";
+    const replay = { path: file, notFound: input.notFound ?? "abort" };
+    await context.routeFromHAR(replay.path, { url, notFound: replay.notFound });
+    const key = `har:${input.path}`;
+    state.routes.set(key, { context, url, replay });
+    return { content: [{ type: "text", text: key }] };
   },
   async page_wait_for(input) {
     const page = ensurePage();
-    await page.waitForSelector(input.selector, { state: (input.state as any) ?? "visible", timeout: input.timeoutMs ?? 15000 });
-    return { content: [{ type: "text", text: `waited for ${input.selector}` }] };
+    await locateTarget(page, input).first().waitFor({ state: input.state ?? "visible", timeout: input.timeoutMs ?? 15000 });
+    return { content: [{ type: "text", text: `waited for ${describeTarget(input)}` }] };
   },
   async page_title_get() {
     const page = ensurePage();
@@ -423,157 +1225,315 @@ const handlers: Record<string, (input: any) => Promise<{ content: Array<{ type:
   },
   async page_text_get(input) {
     const page = ensurePage();
-    await page.waitForSelector(input.selector, { timeout: input.timeoutMs ?? 15000 });
-    const text = await page.locator(input.selector).first().textContent();
+    const el = locateTarget(page, input).first();
+    await el.waitFor({ state: "visible", timeout: input.timeoutMs ?? 15000 });
+    const text = await el.textContent();
     return { content: [{ type: "text", text: text ?? "" }] };
   },
   async page_attribute_get(input) {
     const page = ensurePage();
-    await page.waitForSelector(input.selector, { timeout: input.timeoutMs ?? 15000 });
-    const val = await page.locator(input.selector).first().getAttribute(input.name);
+    const el = locateTarget(page, input).first();
+    await el.waitFor({ state: "visible", timeout: input.timeoutMs ?? 15000 });
+    const val = await el.getAttribute(input.name);
     return { content: [{ type: "text", text: val ?? "" }] };
   },
+  async spec_export(input) {
+    if (!input.path && !input.suite) {
+      throw new McpError(ErrorCode.InvalidParams, "需要提供 path 或 suite 参数");
+    }
+    const data = input.suite ? await resolveIncludes(input.suite, process.cwd()) : await loadSuiteFile(readablePath(input.path, "spec_export"));
+    const name = input.name ?? (input.path ? path.basename(input.path, path.extname(input.path)) : undefined);
+    let result;
+    try {
+      result = exportSpec(data, { name });
+    } catch (e: any) {
+      throw new McpError(ErrorCode.InvalidParams, e?.message ?? String(e));
+    }
+    const content: Array<{ type: string; text?: string; uri?: string; name?: string; mimeType?: string; description?: string }> = [
+      { type: "text", text: result.code }
+    ];
+    if (result.warnings.length) content.push({ type: "text", text: `warnings:\n${result.warnings.join("\n")}` });
+    if (input.outputPath) {
+      const file = writablePath(input.outputPath, "spec_export");
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(file, result.code, "utf-8");
+      content.push(resourceLink(addArtifact(file, "导出的 Playwright Test 规格")));
+    }
+    return { content };
+  },
+  async spec_import(input) {
+    const source = await fs.readFile(readablePath(input.path, "spec_import"), "utf-8");
+    let result;
+    try {
+      result = importSpec(source);
+    } catch (e: any) {
+      throw new McpError(ErrorCode.InvalidParams, `无法解析 ${input.path}: ${e?.message ?? e}`);
+    }
+    const text = JSON.stringify({ suite: result.suite, warnings: result.warnings }, null, 2);
+    if (!input.outputPath) {
+      return { content: [{ type: "text", text }] };
+    }
+    const file = writablePath(input.outputPath, "spec_import");
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, JSON.stringify(result.suite, null, 2), "utf-8");
+    return { content: [{ type: "text", text }, resourceLink(addArtifact(file, "从规格文件导入的套件"))] };
+  },
   async test_plan_run_file(input) {
-    const raw = await fs.readFile(input.path, "utf-8");
-    const data = JSON.parse(raw);
-    if (Array.isArray(data?.steps)) {
-      return handlers.test_plan_run(data);
+    const data = await loadSuiteFile(readablePath(input.path, "test_plan_run_file"));
+    if (Array.isArray(data.steps)) {
+      return handlers.test_plan_run(tools.test_plan_run.inputSchema.parse(data));
+    }
+    return handlers.test_suite_run(tools.test_suite_run.inputSchema.parse({ name: path.basename(input.path, path.extname(input.path)), ...data }));
+  },
+  async suite_validate(input) {
+    if (!input.path && !input.suite) {
+      throw new McpError(ErrorCode.InvalidParams, "需要提供 path 或 suite 参数");
     }
-    return handlers.test_suite_run(data);
+    const files: string[] = [];
+    let data: Record<string, any>;
+    try {
+      data = input.path ? await loadSuiteFile(readablePath(input.path, "suite_validate"), files) : await resolveIncludes(input.suite, process.cwd(), files);
+    } catch (e: any) {
+      // include 无法解析时同样以校验结果返回
+      if (!(e instanceof McpError) || e.code !== ErrorCode.InvalidParams) throw e;
+      const result = { ok: false, files, errors: [{ where: "include", message: messageOf(e) }], warnings: [] };
+      return { content: [{ type: "text", text: JSON.stringify(result) }], isError: true };
+    }
+    const result = await validateSuite(data, (name) => toolByName(name)?.inputSchema, files);
+    return { content: [{ type: "text", text: JSON.stringify(result) }], ...(result.ok ? {} : { isError: true }) };
   },
   async test_suite_run(input) {
-    const results: any = { setup: [], tests: [], teardown: [], junit: null };
-    const ensureDir = async (dir: string) => { try { await fs.mkdir(dir, { recursive: true }); } catch { /* noop */ } };
-    const runSteps = async (steps: any[], phase: "setup" | "teardown" | "test") => {
-      for (let i = 0; i < steps.length; i++) {
-        const step = steps[i];
-        try {
-          const tool = (tools as any)[step.name];
-          if (!tool) throw new Error("未知工具");
-          const args = tool.inputSchema.parse(step.arguments ?? {});
-          await handlers[step.name](args);
-          (phase === "test" ? results.tests : (phase === "setup" ? results.setup : results.teardown)).push({ name: step.name, ok: true });
-        } catch (e: any) {
-          (phase === "test" ? results.tests : (phase === "setup" ? results.setup : results.teardown)).push({ name: step.name, ok: false, message: e?.message ?? String(e) });
-          if (!input.continueOnError) throw e;
+    // 内联参数中的 include 相对于工作目录解析
+    if (input.include) input = tools.test_suite_run.inputSchema.parse(await resolveIncludes(input, process.cwd()));
+    // 运行前校验输出路径，避免执行完才被安全策略拒绝；之后只使用校验后的路径
+    const confined = (p: string | undefined) => (p ? writablePath(p, "test_suite_run") : undefined);
+    input = {
+      ...input,
+      artifactsDir: confined(input.artifactsDir),
+      junitPath: confined(input.junitPath),
+      htmlReport: confined(input.htmlReport),
+      allureDir: confined(input.allureDir),
+      baselineDir: confined(input.baselineDir)
+    };
+    const historyFile = input.history === false ? null : writablePath(input.history ?? defaultHistoryFile(defaultWriteDir(".")), "test_suite_run");
+    const projects = expandProjects(input);
+    // 套件超时与请求取消共用一个中止信号，覆盖所有项目
+    const suiteScope = abortScope(callStore.getStore()?.signal, input.suiteTimeoutMs, "套件超时");
+    let results: RunResults;
+    try {
+      if (projects.length) {
+        const baseDir = input.artifactsDir ?? defaultWriteDir(`artifacts_${Date.now()}`);
+        const projectResults: ProjectSuiteResult[] = [];
+        for (const project of projects) {
+          if (suiteScope.signal.aborted) break;
+          const run = await runSuite({ ...input, artifactsDir: path.join(baseDir, sanitizeFilename(project.name!)) }, project, suiteScope.signal);
+          projectResults.push({ project: project.name!, browserType: project.browserType ?? "chromium", device: project.device, ...run });
         }
+        results = { projects: projectResults, junit: null, artifactsDir: baseDir };
+      } else {
+        results = { ...(await runSuite(input, undefined, suiteScope.signal)), junit: null };
       }
-    };
-    const shouldAutoBrowser = input.autoBrowser ?? true;
-    if (shouldAutoBrowser && !state.browser) {
-      await handlers.browser_open({ headless: input.headless });
-    }
-    if (input.setup?.length) await runSteps(input.setup, "setup");
-    const artifactsDir = input.artifactsDir ?? path.join(process.cwd(), `artifacts_${Date.now()}`);
-    if (input.onFailureScreenshot || input.traceOnFailure || input.junitPath || input.artifactsDir) {
-      await ensureDir(artifactsDir);
+    } finally {
+      suiteScope.dispose();
     }
-    for (const test of input.tests) {
-      let attempt = 0; let ok = false; let lastErr: any = null;
-      const testArtifacts: string[] = [];
-      while (attempt <= (input.retries ?? 0)) {
-        try {
-          if (input.traceOnFailure) {
-            const page = ensurePage();
-            await page.context().tracing.start({ screenshots: true, snapshots: true, sources: false });
-          }
-          await runSteps(test.steps, "test");
-          ok = true;
-          if (input.traceOnFailure) {
-            const page = ensurePage();
-            await page.context().tracing.stop();
-          }
-          break;
-        } catch (e: any) {
-          lastErr = e; attempt++;
-          if (input.onFailureScreenshot) {
-            try {
-              const page = ensurePage();
-              const file = path.join(artifactsDir, `${sanitizeFilename(test.name)}_attempt${attempt}.png`);
-              await page.screenshot({ path: file, fullPage: true });
-              testArtifacts.push(file);
-            } catch {/* ignore */}
-          }
-          if (input.traceOnFailure) {
-            try {
-              const page = ensurePage();
-              const file = path.join(artifactsDir, `${sanitizeFilename(test.name)}_attempt${attempt}_trace.zip`);
-              await page.context().tracing.stop({ path: file });
-              testArtifacts.push(file);
-            } catch {/* ignore */}
-          }
-          if (attempt > (input.retries ?? 0)) break;
-        }
+    if (historyFile) {
+      // 历史写入失败不影响本次结果
+      try {
+        await appendHistory(historyFile, toHistoryRuns(results, input.name));
+      } catch (e: any) {
+        console.error(`[mcp-web-autotest] 写入运行历史失败: ${e?.message ?? e}`);
       }
-      results.tests.push({ name: test.name, ok, error: ok ? undefined : (lastErr?.message ?? String(lastErr)) , artifacts: testArtifacts });
-      if (!ok && !input.continueOnError) break;
     }
-    if (input.teardown?.length) await runSteps(input.teardown, "teardown");
     if (input.junit) {
       results.junit = buildJUnit(results);
       if (input.junitPath) {
+        await fs.mkdir(path.dirname(input.junitPath), { recursive: true });
         await fs.writeFile(input.junitPath, results.junit, "utf-8");
       }
     }
-    if (shouldAutoBrowser) {
-      try { await handlers.browser_close({}); } catch {/* ignore */}
+    // 将报告、失败产物与产物目录登记为资源，结果中附带资源链接
+    const links: ArtifactResource[] = [];
+    for (const run of "projects" in results ? results.projects : [results]) {
+      for (const t of run.tests) {
+        for (const file of t.artifacts) links.push(addArtifact(file, `${t.name} 失败产物`));
+      }
+    }
+    if (input.junit && input.junitPath) links.push(addArtifact(input.junitPath, "JUnit 报告"));
+    if (input.htmlReport) {
+      await fs.mkdir(path.dirname(path.resolve(input.htmlReport)), { recursive: true });
+      await fs.writeFile(input.htmlReport, await buildHtmlReport(results, input.htmlReport), "utf-8");
+      links.push(addArtifact(input.htmlReport, "HTML 测试报告"));
     }
-    return { content: [{ type: "text", text: JSON.stringify(results) }] };
+    if (input.allureDir) {
+      await writeAllureResults(results, input.allureDir);
+      links.push(addArtifact(input.allureDir, "Allure 结果目录", "directory"));
+    }
+    try {
+      await fs.access(results.artifactsDir);
+      links.push(addArtifact(results.artifactsDir, "测试套件产物目录", "directory"));
+    } catch {/* 未生成产物 */}
+    return { content: [{ type: "text", text: JSON.stringify(results) }, ...links.map(resourceLink)] };
+  },
+  async test_history_query(input) {
+    const file = readablePath(input.path ?? defaultHistoryFile(defaultWriteDir(".")), "test_history_query");
+    const runs = await readHistory(file);
+    const tests = summarizeHistory(runs, input);
+    const limited = input.limit ? tests.slice(0, input.limit) : tests;
+    return { content: [{ type: "text", text: JSON.stringify({ file, runs: runs.length, tests: limited }) }] };
   },
   async test_plan_run(input) {
-		const results: Array<{ step: number; name: string; ok: boolean; message: string }> = [];
-		for (let i = 0; i < input.steps.length; i++) {
-			const step = input.steps[i];
-			const stepTool = (tools as any)[step.name];
-			if (!stepTool || typeof handlers[step.name] !== "function") {
-				results.push({ step: i + 1, name: step.name, ok: false, message: "未知工具" });
-				if (!input.continueOnError) break;
-				continue;
-			}
-			try {
-				const stepArgs = stepTool.inputSchema.parse(step.arguments ?? {});
-				await handlers[step.name](stepArgs);
-				results.push({ step: i + 1, name: step.name, ok: true, message: "ok" });
-			} catch (e: any) {
-				results.push({ step: i + 1, name: step.name, ok: false, message: e?.message ?? String(e) });
-				if (!input.continueOnError) break;
+		// 顶层步骤的 step 为序号，控制流内的步骤为路径（如 "3.then.1"）
+		const results: Array<{ step: number | string; name: string; ok: boolean; message: string; value?: unknown }> = [];
+		if (input.include) input = tools.test_plan_run.inputSchema.parse(await resolveIncludes(input, process.cwd()));
+		const vars: StepVars = { ...(input.vars ?? {}) };
+		const onStep = (r: FlowStepRecord) => {
+			const step = /^\d+$/.test(r.path) ? Number(r.path) : r.path;
+			if (r.error !== undefined) {
+				results.push({ step, name: r.name, ok: false, message: r.error instanceof Error ? r.error.message : String(r.error) });
+			} else {
+				results.push({ step, name: r.name, ok: !r.softError, message: r.softError ?? "ok", ...(r.saveAs ? { value: r.value } : {}) });
 			}
-		}
+		};
+		const signal = callStore.getStore()?.signal;
+		try {
+			await runFlowSteps(input.steps, vars, flowRuntime(onStep, input.continueOnError, signal, { macros: input.macros, locators: input.locators }));
+		} catch {/* 失败已记录在 results 中 */}
+		if (signal?.aborted) await replaceAbandonedPage();
 		return { content: [{ type: "text", text: JSON.stringify(results) }] };
 	}
 };
 
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return {
-    tools: Object.values(tools).map((t) => ({
-      name: t.name,
-      description: t.description,
-      inputSchema: (() => {
-        const js: any = zodToJsonSchema(t.inputSchema, { $refStrategy: "none" });
-        // MCP 规范要求顶层必须是 { type: "object", properties, required?, additionalProperties? }
-        return {
-          type: "object",
-          properties: js?.properties ?? {},
-          required: Array.isArray(js?.required) ? js.required : [],
-          additionalProperties: typeof js?.additionalProperties === "boolean" ? js.additionalProperties : false
-        } as any;
-      })()
-    }))
+// 创建 MCP Server 实例，工具调用在给定会话的浏览器状态下执行
+function createServer(session: BrowserContextState): Server {
+  const server = new Server({
+    name: "mcp-web-autotest",
+    version: "0.1.0"
+  });
+
+  // 声明支持 tools / resources 能力（必须在连接前注册）
+  server.registerCapabilities({ tools: {}, resources: { listChanged: true } });
+  session.onResourcesChanged = () => {
+    server.sendResourceListChanged().catch(() => {/* 未连接 */});
   };
-});
 
-server.setRequestHandler(CallToolRequestSchema, async (req: any) => {
-  const tool = (tools as any)[req.params.name];
-  if (!tool) {
-    throw new McpError(ErrorCode.MethodNotFound, `未知工具: ${req.params.name}`);
-  }
-  const input = tool.inputSchema.parse(req.params.arguments ?? {});
-  const handler = handlers[req.params.name];
-  if (!handler) {
-    throw new McpError(ErrorCode.MethodNotFound, `未实现: ${req.params.name}`);
-  }
-  return handler(input);
-});
+  // 产物资源 + 当前页面的实时资源（HTML、URL）
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    const artifacts = Array.from(session.artifacts.values()).map((a) => ({ uri: a.uri, name: a.name, mimeType: a.mimeType, description: a.description }));
+    return {
+      resources: [
+        { uri: PAGE_URL_URI, name: "当前页面 URL", mimeType: "text/plain" },
+        { uri: PAGE_HTML_URI, name: "当前页面 HTML", mimeType: "text/html" },
+        ...artifacts
+      ]
+    };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (req) => {
+    const uri = req.params.uri;
+    return sessionStore.run(session, async () => {
+      if (uri === PAGE_URL_URI) {
+        return { contents: [{ uri, mimeType: "text/plain", text: ensurePage().url() }] };
+      }
+      if (uri === PAGE_HTML_URI) {
+        return { contents: [{ uri, mimeType: "text/html", text: await ensurePage().content() }] };
+      }
+      const entry = session.artifacts.get(uri);
+      if (!entry) {
+        throw new McpError(ErrorCode.InvalidParams, `未知资源: ${uri}`);
+      }
+      const sizeBefore = session.artifacts.size;
+      const content = await readArtifact(session.artifacts, entry);
+      if (session.artifacts.size !== sizeBefore) session.onResourcesChanged?.();
+      return { contents: [content] };
+    });
+  });
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return {
+      tools: Object.values(tools).map((t) => ({
+        name: t.name,
+        description: t.description,
+        inputSchema: (() => {
+          const js: any = zodToJsonSchema(t.inputSchema, { $refStrategy: "none" });
+          // MCP 规范要求顶层必须是 { type: "object", properties, required?, additionalProperties? }
+          return {
+            type: "object",
+            properties: js?.properties ?? {},
+            required: Array.isArray(js?.required) ? js.required : [],
+            additionalProperties: typeof js?.additionalProperties === "boolean" ? js.additionalProperties : false
+          } as any;
+        })()
+      }))
+    };
+  });
+
+  server.setRequestHandler(CallToolRequestSchema, async (req: any, extra) => {
+    const tool = toolByName(req.params.name);
+    if (!tool) {
+      throw new McpError(ErrorCode.MethodNotFound, `未知工具: ${req.params.name}`);
+    }
+    const input = tool.inputSchema.parse(req.params.arguments ?? {});
+    const handler = handlers[req.params.name];
+    if (!handler) {
+      throw new McpError(ErrorCode.MethodNotFound, `未实现: ${req.params.name}`);
+    }
+    // 客户端取消请求时以统一的错误中止，test_suite_run / test_plan_run 据此停止
+    const cancel = new AbortController();
+    extra.signal.addEventListener("abort", () => cancel.abort(new McpError(ErrorCode.InvalidRequest, "请求已取消")), { once: true });
+    const progressToken = req.params._meta?.progressToken;
+    const call: CallContext = {
+      signal: cancel.signal,
+      onSuiteEvent: progressToken !== undefined ? progressNotifier(progressToken, extra.sendNotification) : null
+    };
+    return sessionStore.run(session, () => callStore.run(call, () => handler(input)));
+  });
+
+  return server;
+}
+
+// 把套件事件转换为 MCP 进度通知：progress 为已完成的测试数，total 为已开始的套件（项目）的测试总数。
+// 规范要求 progress 每次递增，测试内的步骤通知以小增量推进
+function progressNotifier(progressToken: string | number, send: (notification: ServerNotification) => Promise<void>): (event: SuiteEvent) => void {
+  let total = 0;
+  let done = 0;
+  let progress = 0;
+  return (event) => {
+    let message: string;
+    if (event.type === "begin") {
+      total += event.total;
+      message = `${event.suite ?? "套件"}：${event.total} 个测试`;
+    } else if (event.type === "testBegin") {
+      message = `开始 ${event.name}`;
+    } else if (event.type === "step") {
+      const { step } = event;
+      message = `${event.test ? `${event.test} › ` : ""}${step.path ? `${step.path} ` : ""}${step.name} ${step.ok ? "✓" : "✘"}`;
+    } else {
+      done++;
+      message = `${event.test.name}：${testStatus(event.test)}（${event.test.durationMs}ms）`;
+    }
+    progress = Math.round(Math.max(done, progress + 0.001) * 1000) / 1000;
+    send({
+      method: "notifications/progress",
+      params: { progressToken, progress, ...(total ? { total } : {}), message: `[${done}/${total}] ${message}` }
+    }).catch(() => {/* 连接已断开 */});
+  };
+}
+
+const PAGE_URL_URI = "page://current/url";
+const PAGE_HTML_URI = "page://current/html";
+
+// 登记产物资源并通知客户端资源列表已变化
+function addArtifact(filePath: string, description?: string, kind: "file" | "directory" = "file"): ArtifactResource {
+  const sizeBefore = state.artifacts.size;
+  const entry = registerArtifact(state.artifacts, filePath, { description, kind });
+  if (state.artifacts.size !== sizeBefore) state.onResourcesChanged?.();
+  return entry;
+}
+
+// 工具产物的默认目录：套件运行中使用其 artifactsDir，否则为 MCP_ARTIFACTS_DIR 或 ./artifacts（配置了 writeRoots 时位于第一个可写根目录下）
+function artifactsDirFor(): string {
+  return state.run?.artifactsDir ?? process.env.MCP_ARTIFACTS_DIR ?? defaultWriteDir("artifacts");
+}
 
 function ensurePage(): Page {
   if (!state.browser || !state.page) {
@@ -582,27 +1542,615 @@ function ensurePage(): Page {
   return state.page;
 }
 
-function buildJUnit(results: any): string {
-  const tests = results.tests.filter((t: any) => typeof t.ok === "boolean");
-  const testsCount = tests.length;
-  const failures = tests.filter((t: any) => !t.ok).length;
-  const cases = tests.map((t: any) => t.ok ? `<testcase name="${escapeXml(t.name)}"/>` : `<testcase name="${escapeXml(t.name)}"><failure message="${escapeXml(t.error || "error")}"/></testcase>`).join("");
-  return `<?xml version="1.0" encoding="UTF-8"?><testsuite name="mcp-web-autotest" tests="${testsCount}" failures="${failures}">${cases}</testsuite>`;
+// 执行一次完整套件（setup/tests/teardown）；指定 project 时按其浏览器/设备配置独立启动浏览器
+// workers > 1 时各 worker 在共享浏览器中使用独立上下文并发执行测试，结果按用例原始顺序合并。
+// signal 中止（套件超时或请求取消）时停止领取测试，仍执行 teardown 与清理
+async function runSuite(input: any, project?: Project, signal?: AbortSignal): Promise<SuiteResult> {
+  const suiteStart = Date.now();
+  const setup: StepResult[] = [];
+  const teardown: StepResult[] = [];
+  let testResults: TestResult[] = [];
+  let workers = 1;
+  const routesBefore = new Set(state.routes.keys());
+  const vars: StepVars = { ...(input.vars ?? {}) };
+  const ensureDir = async (dir: string) => { try { await fs.mkdir(dir, { recursive: true }); } catch { /* noop */ } };
+  // 返回本组步骤中的软断言失败信息；并行时步骤结果记录 worker 序号，prefix 为钩子步骤的路径前缀（如 beforeEach.1）
+  const runSteps = async (
+    steps: any[], target: StepResult[], scope: StepVars = vars, extra: { worker?: number } = {},
+    options: { test?: string; prefix?: string; signal?: AbortSignal } = {}
+  ): Promise<string[]> => {
+    const onStep = (r: FlowStepRecord) => {
+      const step = toStepResult(r, extra);
+      target.push(step);
+      emitSuiteEvent({ type: "step", ...(options.test ? { test: options.test } : {}), step });
+    };
+    return runFlowSteps(steps, scope, flowRuntime(onStep, input.continueOnError, options.signal, { macros: input.macros, locators: input.locators }), options.prefix);
+  };
+  // teardown 不受套件中止影响，但受 testTimeoutMs 限制，避免取消后卡在清理步骤
+  const runTeardown = async (scope: StepVars = vars, extra: { worker?: number } = {}) => {
+    const teardownScope = abortScope(undefined, input.testTimeoutMs, "teardown 超时");
+    try {
+      await runSteps(input.teardown, teardown, scope, extra, { signal: teardownScope.signal });
+    } finally {
+      teardownScope.dispose();
+    }
+  };
+  const interrupted = (): SuiteResult["interrupted"] =>
+    signal?.aborted ? (signal.reason?.code === ErrorCode.RequestTimeout ? "timeout" : "cancelled") : undefined;
+  const suiteTests: SuiteTest[] = input.tests;
+  const tests = shardTests(filterTests(await expandDataTests(suiteTests), input.grep, input.tag), input.shard);
+  const quarantined = new Set(tests.filter((t) => isQuarantined(t.name, input.quarantine)).map((t) => t.name));
+  const artifactsDir = input.artifactsDir ?? defaultWriteDir(`artifacts_${Date.now()}`);
+  if (!tests.length && (input.grep || input.tag?.length || input.shard)) {
+    // 筛选或分片后没有测试：不启动浏览器，也不执行 setup/teardown
+    return { ...(input.name ? { name: input.name } : {}), setup, tests: [], teardown, startedAt: new Date(suiteStart).toISOString(), durationMs: 0, vars, artifactsDir, ...(input.shard ? { shard: input.shard } : {}) };
+  }
+  const shouldAutoBrowser = project ? true : (input.autoBrowser ?? true);
+  if (project) {
+    await handlers.browser_open({ headless: input.headless, browserType: project.browserType, device: project.device, colorScheme: project.colorScheme, reducedMotion: project.reducedMotion, throttling: project.throttling });
+  } else if (shouldAutoBrowser && !state.browser) {
+    await handlers.browser_open({ headless: input.headless });
+  }
+  workers = Math.max(1, Math.min(input.workers ?? 1, tests.length));
+  const sharedSetup = workers > 1 && input.workerSetup === "storageState";
+  emitSuiteEvent({ type: "begin", ...(project?.name ?? input.name ? { suite: project?.name ?? input.name } : {}), total: tests.length });
+  const newRunContext = (): SuiteRunContext => ({ artifactsDir, baselineDir: input.baselineDir, updateBaselines: input.updateBaselines ?? getEnvBoolean("MCP_UPDATE_BASELINES", false), a11y: [], metrics: [] });
+
+  // 测试结束时采集当前页面的性能指标（页面不可用时忽略）
+  const collectTestMetrics = async () => {
+    try {
+      state.run!.metrics.push(await collectPageMetrics(ensurePage()));
+    } catch {/* ignore */}
+  };
+
+  // 按 isolation 为本次尝试准备新的上下文或标签页，返回释放函数（关闭它们并恢复原来的当前标签页）
+  const isolate = async (worker?: number): Promise<() => Promise<void>> => {
+    const isolation = input.isolation ?? "none";
+    if (isolation === "none") return async () => {};
+    const prev = { page: state.page, pageId: state.currentPageId, contextId: state.currentContextId };
+    const restore = () => {
+      state.page = prev.page;
+      state.currentPageId = prev.pageId;
+      state.currentContextId = prev.contextId;
+    };
+    if (isolation === "page") {
+      const before = new Set(state.pages.keys());
+      const page = await ensurePage().context().newPage();
+      state.page = page;
+      state.currentPageId = registerPage(page);
+      return async () => {
+        // 同时关闭测试中打开的弹窗等标签页
+        for (const [id, p] of Array.from(state.pages)) {
+          if (before.has(id)) continue;
+          state.pages.delete(id);
+          try { await p.close(); } catch {/* 已关闭 */}
+        }
+        restore();
+      };
+    }
+    const run = state.run!;
+    if (!run.isolatedOptions) {
+      // 新上下文沿用当前上下文的创建参数；执行过 setup 时导出其 cookie/localStorage
+      const base = state.contexts.get(prev.contextId ?? "default");
+      const options: ContextOptions = { ...(base?.options ?? {}) };
+      if (base && input.setup?.length) {
+        await ensureDir(artifactsDir);
+        options.storageState = path.join(artifactsDir, `isolation_storage_state${worker ? `_worker${worker}` : ""}.json`);
+        await base.context.storageState({ path: options.storageState });
+      }
+      run.isolatedOptions = options;
+    }
+    const id = nextContextId();
+    await openContext(id, run.isolatedOptions);
+    return async () => {
+      try { await closeContext(id); } catch {/* ignore */}
+      restore();
+    };
+  };
+
+  // 执行单个测试（含重试），每次尝试分别记录步骤、耗时、错误与产物
+  const runTest = async (test: SuiteTest & { row?: DataRow }, base: StepVars, worker?: number): Promise<TestResult> => {
+    const testStart = Date.now();
+    emitSuiteEvent({ type: "testBegin", name: test.name, worker });
+    const attempts: AttemptResult[] = [];
+    let attempt = 0; let ok = false; let lastErr: any = null;
+    // 数据驱动的用例在套件变量之上叠加本行数据，saveAs 写入的变量不影响其他用例
+    const scope: StepVars = test.row ? { ...base, ...test.row } : base;
+    while (attempt <= (input.retries ?? 0)) {
+      const attemptStart = Date.now();
+      const steps: StepResult[] = [];
+      const testArtifacts: string[] = [];
+      let collected = false;
+      let screenshotted = false;
+      // 失败截图（每次尝试一张）；套件中止时不再截图，尽快结束
+      const failureScreenshot = async () => {
+        if (!input.onFailureScreenshot || signal?.aborted || screenshotted) return;
+        screenshotted = true;
+        try {
+          const page = ensurePage();
+          const file = path.join(artifactsDir, `${sanitizeFilename(test.name)}_attempt${attempt + 1}.png`);
+          await page.screenshot({ path: file, fullPage: true });
+          testArtifacts.push(file);
+        } catch {/* ignore */}
+      };
+      // 测试超时与套件中止都会中止本次尝试：挂起的步骤立即失败，隔离的上下文/标签页随后关闭
+      const testScope = abortScope(signal, input.testTimeoutMs, "测试超时");
+      let release = async () => {};
+      try {
+        release = await isolate(worker);
+        // 日志按测试尝试隔离，便于 no_console_errors 等断言只关注当前测试
+        for (const p of state.pages.values()) clearPageLogs(pageLogs(p));
+        state.run!.a11y = [];
+        state.run!.metrics = [];
+        if (input.traceOnFailure) {
+          const page = ensurePage();
+          await page.context().tracing.start({ screenshots: true, snapshots: true, sources: false });
+        }
+        const attemptVars = test.row ? { ...scope } : scope;
+        const extra = worker ? { worker } : {};
+        const options = { test: test.name, signal: testScope.signal };
+        const softErrors: string[] = [];
+        let stepError: unknown = null;
+        try {
+          if (input.beforeEach?.length) softErrors.push(...await runSteps(input.beforeEach, steps, attemptVars, extra, { ...options, prefix: "beforeEach" }));
+          softErrors.push(...await runSteps(test.steps, steps, attemptVars, extra, options));
+        } catch (e) {
+          stepError = e;
+        }
+        // 不隔离时，超时后被放弃的步骤仍在共享页面上执行：截图后换上新页面以终止它，避免影响 afterEach 与后续测试
+        if (testScope.signal.aborted && (input.isolation ?? "none") === "none") {
+          await failureScreenshot();
+          await replaceAbandonedPage();
+        }
+        // afterEach 在测试失败或超时后同样执行（超时后另计 testTimeoutMs），套件中止时跳过
+        if (input.afterEach?.length && !signal?.aborted) {
+          const hookScope = testScope.signal.aborted ? abortScope(signal, input.testTimeoutMs, "afterEach 超时") : testScope;
+          try {
+            softErrors.push(...await runSteps(input.afterEach, steps, attemptVars, extra, { ...options, prefix: "afterEach", signal: hookScope.signal }));
+          } catch (e) {
+            if (!stepError) stepError = e;
+          } finally {
+            if (hookScope !== testScope) hookScope.dispose();
+          }
+        }
+        if (stepError) throw stepError;
+        if (input.collectMetrics) {
+          collected = true;
+          await collectTestMetrics();
+        }
+        if (softErrors.length) {
+          // 软断言不中断步骤，但测试整体判定为失败
+          throw new McpError(ErrorCode.InvalidRequest, `${softErrors.length} 个软断言失败: ${softErrors.join("; ")}`);
+        }
+        ok = true;
+        if (input.traceOnFailure) {
+          const page = ensurePage();
+          await page.context().tracing.stop();
+        }
+        attempts.push({ attempt: attempt + 1, ok: true, startedAt: new Date(attemptStart).toISOString(), durationMs: Date.now() - attemptStart, steps, artifacts: testArtifacts });
+        break;
+      } catch (e: any) {
+        if (input.collectMetrics && !collected) await collectTestMetrics();
+        if (Array.isArray(e?.data?.attachments)) {
+          testArtifacts.push(...e.data.attachments);
+        }
+        await failureScreenshot();
+        lastErr = e; attempt++;
+        if (input.logsOnFailure ?? (input.onFailureScreenshot || input.traceOnFailure || !!input.artifactsDir)) {
+          try {
+            const file = path.join(artifactsDir, `${sanitizeFilename(test.name)}_attempt${attempt}_logs.json`);
+            const dump = Object.fromEntries(Array.from(state.pages).map(([id, p]) => [id, pageLogs(p)]));
+            await ensureDir(artifactsDir);
+            await fs.writeFile(file, JSON.stringify(dump, null, 2), "utf-8");
+            testArtifacts.push(file);
+          } catch {/* ignore */}
+        }
+        if (input.traceOnFailure) {
+          try {
+            const page = ensurePage();
+            const file = path.join(artifactsDir, `${sanitizeFilename(test.name)}_attempt${attempt}_trace.zip`);
+            await page.context().tracing.stop({ path: file });
+            testArtifacts.push(file);
+          } catch {/* ignore */}
+        }
+        attempts.push({
+          attempt, ok: false, error: e?.message ?? String(e), stack: e?.stack,
+          startedAt: new Date(attemptStart).toISOString(), durationMs: Date.now() - attemptStart, steps, artifacts: testArtifacts
+        });
+        if (attempt > (input.retries ?? 0) || signal?.aborted) break;
+      } finally {
+        testScope.dispose();
+        await release();
+      }
+    }
+    const a11y = state.run!.a11y.length ? { counts: countByImpact(state.run!.a11y), violations: state.run!.a11y } : undefined;
+    const result: TestResult = {
+      name: test.name,
+      ...(test.tags?.length ? { tags: test.tags } : {}),
+      ...(test.row ? { parameters: test.row } : {}),
+      ok,
+      flaky: ok && attempts.length > 1,
+      ...(quarantined.has(test.name) ? { quarantined: true } : {}),
+      error: ok ? undefined : (lastErr?.message ?? String(lastErr)),
+      retries: attempts.length - 1,
+      ...(worker ? { worker } : {}),
+      startedAt: new Date(testStart).toISOString(),
+      durationMs: Date.now() - testStart,
+      attempts,
+      artifacts: attempts.flatMap((a) => a.artifacts),
+      a11y,
+      ...(state.run!.metrics.length ? { metrics: state.run!.metrics } : {})
+    };
+    emitSuiteEvent({ type: "testEnd", test: result });
+    return result;
+  };
+
+  // setup 或 worker 失败时同样执行 teardown、移除路由并关闭自动启动的浏览器；teardown 的错误不覆盖原始错误
+  let teardownError: unknown;
+  try {
+    if (input.setup?.length && (workers === 1 || sharedSetup)) {
+      try {
+        await runSteps(input.setup, setup, vars, {}, { signal });
+      } catch (e) {
+        // 中止时跳过全部测试，继续执行 teardown 与清理
+        if (!signal?.aborted) throw e;
+      }
+    }
+    if (input.onFailureScreenshot || input.traceOnFailure || input.junitPath || input.artifactsDir || sharedSetup) {
+      await ensureDir(artifactsDir);
+    }
+    if (workers === 1) {
+      state.run = newRunContext();
+      for (const test of tests) {
+        if (signal?.aborted) break;
+        const result = await runTest(test, vars);
+        testResults.push(result);
+        if (!result.ok && !result.quarantined && !input.continueOnError) break;
+      }
+    } else {
+      // 共享 setup：在主上下文执行一次后导出 storageState，各 worker 的上下文以此初始化
+      const contextOptions: ContextOptions = { ...(state.contexts.get(state.currentContextId ?? "default")?.options ?? {}) };
+      if (sharedSetup) {
+        contextOptions.storageState = path.join(artifactsDir, "worker_storage_state.json");
+        await ensurePage().context().storageState({ path: contextOptions.storageState });
+      }
+      const slots: TestResult[] = new Array(tests.length);
+      let next = 0;
+      let stopped = false;
+      const parent = currentState();
+      const runWorker = (n: number) => sessionStore.run(createWorkerState(parent), async () => {
+        const workerVars: StepVars = { ...vars };
+        try {
+          await openContext("default", contextOptions);
+          if (!sharedSetup && input.setup?.length) await runSteps(input.setup, setup, workerVars, { worker: n }, { signal });
+          state.run = newRunContext();
+          while (!stopped && !signal?.aborted && next < tests.length) {
+            const i = next++;
+            slots[i] = await runTest(tests[i], workerVars, n);
+            if (!slots[i].ok && !slots[i].quarantined && !input.continueOnError) stopped = true;
+          }
+          if (!sharedSetup && input.teardown?.length) await runTeardown(workerVars, { worker: n });
+        } finally {
+          for (const id of Array.from(state.contexts.keys())) {
+            try { await closeContext(id); } catch {/* ignore */}
+          }
+        }
+      });
+      // 等待全部 worker 结束后才继续，共享浏览器不会在其它 worker 运行时被关闭
+      const settled = await Promise.allSettled(Array.from({ length: workers }, (_, n) => runWorker(n + 1)));
+      testResults = slots.filter(Boolean);
+      const failed = settled.find((r): r is PromiseRejectedResult => r.status === "rejected");
+      if (failed && !input.continueOnError && !signal?.aborted) throw failed.reason;
+    }
+  } finally {
+    if (input.teardown?.length && (workers === 1 || sharedSetup)) {
+      await runTeardown().catch((e) => { teardownError = e; });
+    }
+    state.run = null;
+    // 移除本次套件中注册的网络拦截/HAR，避免影响后续调用
+    for (const key of Array.from(state.routes.keys())) {
+      if (!routesBefore.has(key)) {
+        try { await handlers.network_unroute({ url: key }); } catch {/* ignore */}
+      }
+    }
+    // 请求被取消时同样关闭浏览器
+    if (shouldAutoBrowser || interrupted() === "cancelled") {
+      try { await handlers.browser_close({}); } catch {/* ignore */}
+    }
+  }
+  if (teardownError) throw teardownError;
+  const stoppedBy = interrupted();
+  return {
+    ...(input.name ? { name: input.name } : {}),
+    setup,
+    tests: testResults,
+    teardown,
+    startedAt: new Date(suiteStart).toISOString(),
+    durationMs: Date.now() - suiteStart,
+    vars,
+    artifactsDir,
+    ...(workers > 1 ? { workers } : {}),
+    ...(input.shard ? { shard: input.shard } : {}),
+    ...(stoppedBy ? { interrupted: stoppedBy } : {})
+  };
+}
+
+// 并行 worker 的会话状态：共享所属会话的浏览器与产物，标签页、上下文、日志与运行上下文各自独立
+function createWorkerState(parent: BrowserContextState): BrowserContextState {
+  return {
+    ...createState(),
+    browser: parent.browser,
+    sharedBrowser: true,
+    dialogPolicy: { ...parent.dialogPolicy },
+    artifacts: parent.artifacts,
+    onResourcesChanged: parent.onResourcesChanged,
+    onSuiteEvent: parent.onSuiteEvent
+  };
+}
+
+// 合并显式 projects 与 matrix（browserTypes × devices）为项目列表
+function expandProjects(input: any): Project[] {
+  const projects: Project[] = [...(input.projects ?? [])];
+  if (input.matrix) {
+    const browserTypes: Array<Project["browserType"]> = input.matrix.browserTypes?.length ? input.matrix.browserTypes : ["chromium"];
+    const deviceNames: Array<string | undefined> = input.matrix.devices?.length ? input.matrix.devices : [undefined];
+    for (const browserType of browserTypes) {
+      for (const device of deviceNames) {
+        projects.push({ browserType, device });
+      }
+    }
+  }
+  return projects.map((p) => ({ ...p, name: p.name ?? [p.browserType ?? "chromium", p.device].filter(Boolean).join(" / ") }));
+}
+
+// 登记标签页并开始收集其控制台/异常/网络日志
+function registerPage(page: Page, id?: string): string {
+  const pageId = id ?? nextPageId();
+  state.pages.set(pageId, page);
+  const logs = createPageLogs();
+  state.logs.set(page, logs);
+  attachPageLogCollectors(page, logs);
+  // 事件回调不在请求的异步上下文中执行，需显式绑定所属会话
+  const session = currentState();
+  page.on("dialog", async (dialog) => {
+    const { action, promptText } = session.dialogPolicy;
+    recordDialog(logs, { type: dialog.type(), message: dialog.message(), action });
+    try {
+      if (action === "accept") {
+        await dialog.accept(dialog.type() === "prompt" ? promptText ?? dialog.defaultValue() : undefined);
+      } else {
+        await dialog.dismiss();
+      }
+    } catch {/* 页面已关闭 */}
+  });
+  return pageId;
 }
 
-function escapeXml(s: string): string {
-  return String(s).replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&apos;");
+function pageLogs(page: Page): PageLogs {
+  let logs = state.logs.get(page);
+  if (!logs) {
+    logs = createPageLogs();
+    state.logs.set(page, logs);
+  }
+  return logs;
+}
+
+// 新建命名上下文及其首个标签页，并设为当前上下文/标签页
+async function openContext(id: string, options: ContextOptions): Promise<Page> {
+  if (!state.browser) {
+    throw new McpError(ErrorCode.InvalidRequest, "请先调用 browser_open 打开浏览器");
+  }
+  // 限制访问源时屏蔽 Service Worker，避免其请求绕过上下文级拦截
+  if (options.throttling) assertThrottlingSupported(state.browser.browserType().name());
+  const context = await state.browser.newContext({
+    ...toPlaywrightContextOptions(options),
+    ...(policy.allowedOrigins ? { serviceWorkers: "block" as const } : {})
+  });
+  await installNetworkGuard(context);
+  await installPerfObserver(context);
+  state.contexts.set(id, { context, options });
+  const page = await context.newPage();
+  if (options.throttling) await throttleContext(context, options.throttling);
+  const pageId = registerPage(page);
+  state.page = page;
+  state.currentPageId = pageId;
+  state.currentContextId = id;
+  return page;
+}
+
+// 展开设备描述（UA、视口、DPR、触屏等），显式参数优先
+function toPlaywrightContextOptions(options: ContextOptions): BrowserContextOptions {
+  const { device, throttling: _throttling, ...rest } = options;
+  const defined = Object.fromEntries(Object.entries(rest).filter(([, v]) => v !== undefined));
+  return { ...(device ? devices[device] : {}), ...defined };
+}
+
+// 关闭上下文并清理其标签页与网络拦截；若为当前上下文则切换到剩余的标签页
+async function closeContext(id: string): Promise<void> {
+  const entry = state.contexts.get(id)!;
+  for (const [pageId, p] of state.pages) {
+    if (p.context() === entry.context) state.pages.delete(pageId);
+  }
+  for (const [key, r] of state.routes) {
+    if (r.context === entry.context) state.routes.delete(key);
+  }
+  state.contexts.delete(id);
+  await entry.context.close();
+  if (state.currentContextId === id) {
+    const next = state.pages.keys().next().value as string | undefined;
+    state.currentPageId = next ?? null;
+    state.page = next ? state.pages.get(next)! : null;
+    state.currentContextId = state.page ? findContextId(state.page.context()) : null;
+  }
+}
+
+// HAR 回放路由无法单独移除：清空上下文的全部拦截后，按注册顺序重新安装安全策略与其余路由
+async function reinstallRoutes(context: BrowserContext): Promise<void> {
+  await context.unrouteAll({ behavior: "ignoreErrors" });
+  await installNetworkGuard(context);
+  for (const r of state.routes.values()) {
+    if (r.context !== context) continue;
+    if (r.handler && r.times !== 0) {
+      await context.route(r.url, r.handler, { times: r.times });
+    } else if (r.replay) {
+      await context.routeFromHAR(r.replay.path, { url: r.url, notFound: r.replay.notFound });
+    }
+  }
+}
+
+// 关闭当前标签页以终止仍在其上执行的操作（Playwright 调用无法单独取消），并在同一上下文中以相同 pageId 换上新标签页
+async function replaceAbandonedPage(): Promise<void> {
+  const old = state.page;
+  const id = state.currentPageId;
+  if (!old || !id || old.isClosed()) return;
+  try {
+    const page = await old.context().newPage();
+    registerPage(page, id);
+    state.page = page;
+    await old.close();
+  } catch {/* 上下文或浏览器已关闭 */}
+}
+
+function resolveContext(id?: string): BrowserContext {
+  const page = ensurePage();
+  if (!id) return page.context();
+  const entry = state.contexts.get(id);
+  if (!entry) {
+    throw new McpError(ErrorCode.InvalidRequest, `未知 contextId: ${id}`);
+  }
+  return entry.context;
+}
+
+function findContextId(context: BrowserContext): string | null {
+  for (const [id, entry] of state.contexts) {
+    if (entry.context === context) return id;
+  }
+  return null;
+}
+
+function findPageId(context: BrowserContext): string | undefined {
+  for (const [id, p] of state.pages) {
+    if (p.context() === context) return id;
+  }
+  return undefined;
+}
+
+type StepVars = Record<string, unknown>;
+type ToolResult = Awaited<ReturnType<(typeof handlers)[string]>>;
+
+// 插值参数、校验并执行单个步骤；若声明了 saveAs，则把输出写入 vars。
+// 工具返回 isError（如软断言失败）时不抛出，而是通过 softError 交由调用方记录
+async function runStep(step: ToolStep, vars: StepVars, locators?: LocatorMap): Promise<{ value: unknown; softError?: string }> {
+  const tool = toolByName(step.name);
+  if (!tool || typeof handlers[step.name] !== "function") throw new Error("未知工具");
+  const args = tool.inputSchema.parse(await resolveLocatorRefs(interpolate(step.arguments ?? {}, vars), locators, () => state.page));
+  const result = await handlers[step.name](args);
+  const value = stepOutput(step.name, result);
+  if (result.isError) {
+    return { value, softError: typeof value === "string" ? value : "soft failure" };
+  }
+  if (step.saveAs) {
+    vars[step.saveAs] = value;
+  }
+  return { value };
+}
+
+// 控制流执行所需的运行时：条件判断使用当前页面，工具步骤经 runStep 执行；defs 为套件定义的宏与具名定位器
+function flowRuntime(
+  onStep: (record: FlowStepRecord) => void, continueOnError?: boolean, signal?: AbortSignal,
+  defs: { macros?: Record<string, Macro>; locators?: LocatorMap } = {}
+): FlowRuntime {
+  return { page: ensurePage, interpolate, runTool: (step, vars) => runStep(step, vars, defs.locators), onStep, continueOnError, signal, ...defs };
+}
+
+// 取第一个文本输出作为步骤结果；page_eval 的结果为 JSON，反序列化后保存
+function stepOutput(name: string, result: ToolResult): unknown {
+  const text = result.content.find((c) => c.type === "text")?.text;
+  if (text === undefined) return undefined;
+  if (name === "page_eval") {
+    try { return JSON.parse(text); } catch { return text; }
+  }
+  return text;
+}
+
+// 递归替换字符串中的 ${name} / ${a.b} / ${env.X}；整串仅为一个占位符时保留原始类型
+function interpolate(value: any, vars: StepVars): any {
+  if (typeof value === "string") {
+    const whole = /^\$\{([^}]+)\}$/.exec(value);
+    if (whole) return lookupVar(whole[1].trim(), vars);
+    return value.replace(/\$\{([^}]+)\}/g, (_, expr: string) => {
+      const v = lookupVar(expr.trim(), vars);
+      return typeof v === "string" ? v : JSON.stringify(v);
+    });
+  }
+  if (Array.isArray(value)) return value.map((v) => interpolate(v, vars));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, interpolate(v, vars)]));
+  }
+  return value;
+}
+
+function lookupVar(expr: string, vars: StepVars): unknown {
+  if (expr.startsWith("env.")) {
+    const v = process.env[expr.slice(4)];
+    if (v === undefined) throw new McpError(ErrorCode.InvalidParams, `未定义环境变量: ${expr.slice(4)}`);
+    return v;
+  }
+  let cur: any = vars;
+  for (const key of expr.split(".")) {
+    if (cur === null || cur === undefined || !(key in Object(cur))) {
+      throw new McpError(ErrorCode.InvalidParams, `未定义变量: ${expr}`);
+    }
+    cur = cur[key];
+  }
+  return cur;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
 function sanitizeFilename(name: string): string {
   return String(name).replace(/[^a-zA-Z0-9-_\.]+/g, "_").slice(0, 100);
 }
 
-const port = process.env.MCP_PORT ? Number(process.env.MCP_PORT) : 3001;
+// 启动 stdio 或 HTTP 传输层
+function startTransport(): void {
+  const port = process.env.MCP_PORT ? Number(process.env.MCP_PORT) : 3001;
+  const transportMode = process.argv.includes("--http") ? "http" : (process.env.MCP_TRANSPORT ?? "stdio").trim().toLowerCase();
 
-const transport = new StdioServerTransport();
-server.connect(transport);
+  if (transportMode === "http") {
+    const maxSessions = Number(process.env.MCP_MAX_SESSIONS ?? 10);
+    const idleTimeoutMs = Number(process.env.MCP_SESSION_IDLE_MS ?? 30 * 60 * 1000);
+    startHttpTransport({
+      port,
+      maxSessions,
+      idleTimeoutMs,
+      createSession: () => {
+        const session = createState();
+        return {
+          server: createServer(session),
+          dispose: () => sessionStore.run(session, async () => { await handlers.browser_close({}); })
+        };
+      },
+      log: (message) => console.error(`[mcp-web-autotest] ${message}`)
+    });
+    console.error(`[mcp-web-autotest] 服务已启动（http）: http://localhost:${port}/mcp，最大会话数 ${maxSessions}`);
+  } else {
+    const transport = new StdioServerTransport();
+    createServer(defaultState).connect(transport);
+    console.error("[mcp-web-autotest] 服务已启动（stdio）");
+  }
+}
 
-console.error(`[mcp-web-autotest] 服务已启动（stdio）。调试端口提示: ${port}`);
+// 仅在作为入口运行时启动传输层；命令行运行器等模块导入本文件时只复用工具实现
+if (process.argv[1] && import.meta.url === pathToFileURL(realpathSync(process.argv[1])).href) {
+  startTransport();
+}
 
+export { handlers, tools };
 
+// 设置默认会话（stdio / 命令行）的套件事件回调
+export function setSuiteEventListener(listener: ((event: SuiteEvent) => void) | null): void {
+  defaultState.onSuiteEvent = listener;
+}
@@ -0,0 +1,206 @@
+import type { Locator } from "playwright";
+
+// 快照中可交互元素的 ref 以该属性写回 DOM，保证同一元素在多次快照间 ref 稳定
+export const REF_ATTRIBUTE = "data-mcp-ref";
+
+export function refSelector(ref: string): string {
+  return `[${REF_ATTRIBUTE}="${ref}"]`;
+}
+
+export type SnapshotOptions = {
+  // 仅保留可交互元素与标题，进一步压缩体积
+  interactiveOnly?: boolean;
+  maxTextLength?: number;
+};
+
+// tsx（esbuild keepNames）会为具名函数注入 __name 调用，序列化到页面后需提供同名空实现
+export async function installEvalShim(root: Locator): Promise<void> {
+  await root.evaluate(() => {
+    const g = globalThis as typeof globalThis & { __name?: (f: unknown) => unknown };
+    g.__name = g.__name ?? ((f: unknown) => f);
+  });
+}
+
+// 生成紧凑的无障碍树文本：每行 `- role "name" [ref=eN] [状态...]`，按缩进表示层级
+export async function captureSnapshot(root: Locator, options: SnapshotOptions = {}): Promise<string> {
+  await installEvalShim(root);
+  return root.evaluate((rootEl, opts) => {
+    const { refAttr, interactiveOnly, maxText } = opts;
+    const w = window as Window & { __mcpRefSeq?: number };
+    let refSeq = w.__mcpRefSeq ?? 0;
+
+    const INTERACTIVE = new Set([
+      "button", "link", "textbox", "searchbox", "checkbox", "radio", "combobox", "listbox", "option", "slider",
+      "spinbutton", "switch", "tab", "menuitem", "menuitemcheckbox", "menuitemradio", "treeitem"
+    ]);
+    // 名称取自内容、无需再展开子节点的角色
+    const LEAF = new Set([...INTERACTIVE, "heading", "img"]);
+    const LANDMARK: Record<string, string> = {
+      nav: "navigation", main: "main", header: "banner", footer: "contentinfo", aside: "complementary",
+      form: "form", dialog: "dialog", ul: "list", ol: "list", li: "listitem", table: "table", tr: "row",
+      td: "cell", th: "columnheader", section: "region", article: "article", fieldset: "group", summary: "button"
+    };
+
+    const clip = (s: string) => {
+      const t = s.replace(/\s+/g, " ").trim();
+      return t.length > maxText ? `${t.slice(0, maxText)}…` : t;
+    };
+
+    const roleOf = (el: Element): string | null => {
+      const explicit = el.getAttribute("role");
+      if (explicit) return explicit.split(/\s+/)[0];
+      const tag = el.tagName.toLowerCase();
+      if (tag === "a") return el.hasAttribute("href") ? "link" : null;
+      if (tag === "button") return "button";
+      if (/^h[1-6]$/.test(tag)) return "heading";
+      if (tag === "img") return el.getAttribute("alt") === "" ? null : "img";
+      if (tag === "textarea") return "textbox";
+      if (tag === "select") return (el as HTMLSelectElement).multiple ? "listbox" : "combobox";
+      if (tag === "option") return "option";
+      if (tag === "input") {
+        const type = ((el as HTMLInputElement).type || "text").toLowerCase();
+        if (type === "hidden") return null;
+        if (["button", "submit", "reset", "image"].includes(type)) return "button";
+        if (type === "checkbox") return "checkbox";
+        if (type === "radio") return "radio";
+        if (type === "range") return "slider";
+        if (type === "number") return "spinbutton";
+        if (type === "search") return "searchbox";
+        return "textbox";
+      }
+      if ((el as HTMLElement).isContentEditable && el.getAttribute("contenteditable") !== null) return "textbox";
+      return LANDMARK[tag] ?? null;
+    };
+
+    const nameOf = (el: Element, role: string): string => {
+      const label = el.getAttribute("aria-label");
+      if (label) return clip(label);
+      const labelledBy = el.getAttribute("aria-labelledby");
+      if (labelledBy) {
+        const text = labelledBy.split(/\s+/).map((id) => el.ownerDocument.getElementById(id)?.textContent ?? "").join(" ");
+        if (text.trim()) return clip(text);
+      }
+      const id = el.getAttribute("id");
+      if (id && /^(input|select|textarea)$/i.test(el.tagName)) {
+        const forLabel = el.ownerDocument.querySelector(`label[for="${CSS.escape(id)}"]`);
+        if (forLabel?.textContent?.trim()) return clip(forLabel.textContent);
+      }
+      const wrapping = el.closest("label");
+      if (wrapping && wrapping !== el && wrapping.textContent?.trim()) return clip(wrapping.textContent);
+      if (el.tagName === "IMG") return clip(el.getAttribute("alt") ?? "");
+      if (el.tagName === "INPUT" && ["submit", "button", "reset"].includes((el as HTMLInputElement).type)) {
+        return clip((el as HTMLInputElement).value);
+      }
+      if (LEAF.has(role) && !["textbox", "searchbox", "combobox", "listbox", "slider", "spinbutton"].includes(role)) {
+        const text = (el as HTMLElement).innerText ?? el.textContent ?? "";
+        if (text.trim()) return clip(text);
+      }
+      return clip(el.getAttribute("title") ?? el.getAttribute("placeholder") ?? "");
+    };
+
+    const isHidden = (el: Element): boolean => {
+      if (el.getAttribute("aria-hidden") === "true") return true;
+      const style = getComputedStyle(el);
+      return style.display === "none" || style.visibility === "hidden";
+    };
+
+    const propsOf = (el: Element, role: string): string[] => {
+      const props: string[] = [];
+      const h = el as HTMLInputElement;
+      if (role === "heading") {
+        const level = el.getAttribute("aria-level") ?? (/^H([1-6])$/.exec(el.tagName)?.[1]);
+        if (level) props.push(`level=${level}`);
+      }
+      if (h.disabled || el.getAttribute("aria-disabled") === "true") props.push("disabled");
+      if (role === "checkbox" || role === "radio" || role === "switch") {
+        const aria = el.getAttribute("aria-checked");
+        props.push(aria ? `checked=${aria}` : (h.checked ? "checked" : "unchecked"));
+      }
+      const expanded = el.getAttribute("aria-expanded");
+      if (expanded) props.push(`expanded=${expanded}`);
+      if (el.getAttribute("aria-selected") === "true" || (el.tagName === "OPTION" && (el as HTMLOptionElement).selected)) props.push("selected");
+      if (h.required) props.push("required");
+      if (el === el.ownerDocument.activeElement) props.push("focused");
+      if (["textbox", "searchbox", "spinbutton", "slider"].includes(role) && typeof h.value === "string" && h.value) {
+        props.push(`value="${clip(h.value)}"`);
+      }
+      if (role === "combobox" && el.tagName === "SELECT") {
+        const sel = el as HTMLSelectElement;
+        props.push(`value="${clip(sel.selectedOptions[0]?.textContent ?? "")}"`);
+      }
+      return props;
+    };
+
+    const lines: string[] = [];
+    const walk = (el: Element, depth: number) => {
+      if (isHidden(el)) return;
+      const role = roleOf(el);
+      const clickable = !role && (el.hasAttribute("onclick") || (el.getAttribute("tabindex") ?? "-1") !== "-1");
+      const effectiveRole = role ?? (clickable ? "generic" : null);
+      let childDepth = depth;
+      if (effectiveRole) {
+        const interactive = INTERACTIVE.has(effectiveRole) || clickable;
+        if (!interactiveOnly || interactive || effectiveRole === "heading") {
+          const parts = [`- ${effectiveRole}`];
+          const name = nameOf(el, effectiveRole);
+          if (name) parts.push(JSON.stringify(name));
+          if (interactive) {
+            let ref = el.getAttribute(refAttr);
+            if (!ref) {
+              ref = `e${++refSeq}`;
+              w.__mcpRefSeq = refSeq;
+              el.setAttribute(refAttr, ref);
+            }
+            parts.push(`[ref=${ref}]`);
+          }
+          parts.push(...propsOf(el, effectiveRole).map((p) => `[${p}]`));
+          lines.push(`${"  ".repeat(depth)}${parts.join(" ")}`);
+          childDepth = depth + 1;
+        }
+        if (LEAF.has(effectiveRole) || el.tagName === "SELECT") return;
+      }
+      if (!interactiveOnly) {
+        for (const node of Array.from(el.childNodes)) {
+          if (node.nodeType === 3) {
+            const text = clip(node.textContent ?? "");
+            if (text) lines.push(`${"  ".repeat(childDepth)}- text ${JSON.stringify(text)}`);
+          }
+        }
+      }
+      for (const child of Array.from(el.children)) {
+        if (["SCRIPT", "STYLE", "NOSCRIPT", "TEMPLATE"].includes(child.tagName)) continue;
+        walk(child, childDepth);
+        if (child.shadowRoot) {
+          for (const shadowChild of Array.from(child.shadowRoot.children)) walk(shadowChild, childDepth);
+        }
+      }
+    };
+    walk(rootEl, 0);
+    return lines.join("\n");
+  }, { refAttr: REF_ATTRIBUTE, interactiveOnly: !!options.interactiveOnly, maxText: options.maxTextLength ?? 80 });
+}
+
+// 基于 LCS 的逐行差异，仅输出变化行（`+ ` 新增、`- ` 删除）
+export function diffSnapshots(before: string, after: string): string {
+  const a = before ? before.split("\n") : [];
+  const b = after ? after.split("\n") : [];
+  const n = a.length;
+  const m = b.length;
+  const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+  const out: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) { i++; j++; }
+    else if (lcs[i + 1][j] >= lcs[i][j + 1]) out.push(`- ${a[i++]}`);
+    else out.push(`+ ${b[j++]}`);
+  }
+  while (i < n) out.push(`- ${a[i++]}`);
+  while (j < m) out.push(`+ ${b[j++]}`);
+  return out.join("\n");
+}
@@ -0,0 +1,80 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { exportSpec, importSpec, regexLiteral } from "./spec.js";
+
+// 生成的正则字面量作为 JS 表达式求值
+const evalRegex = (literal: string): RegExp => Function(`"use strict"; return ${literal};`)();
+
+test("regexLiteral：转义所有未转义的 /，结果与原正则等价", () => {
+  for (const pattern of ["https://a.com/x", "a\\/b//c", "\\\\/", "^/api/v\\d+/"]) {
+    const literal = regexLiteral(pattern, "i");
+    const re = evalRegex(literal);
+    assert.equal(re.source, new RegExp(pattern, "i").source, literal);
+    assert.equal(re.flags, "i");
+  }
+  assert.equal(regexLiteral("https://a.com/x"), "/https:\\/\\/a.com\\/x/");
+  assert.equal(evalRegex(regexLiteral("[/]+")).test("//"), true);
+  // 空模式写成 // 会成为注释
+  assert.equal(regexLiteral(""), 'new RegExp("", "")');
+  assert.equal(regexLiteral("a\nb"), 'new RegExp("a\\nb", "")');
+});
+
+test("exportSpec：共享页面的 describe、钩子与 saveAs 变量", () => {
+  const { code, warnings } = exportSpec({
+    vars: { base: "https://example.com" },
+    setup: [{ name: "browser_open", arguments: {} }, { name: "page_goto", arguments: { url: "https://example.com/login" } }],
+    beforeEach: [{ name: "page_click", arguments: { selector: "#reset" } }],
+    tests: [{ name: "标题", steps: [{ name: "page_title_get", saveAs: "title" }, { name: "page_fill", arguments: { selector: "#q", value: "mcp" } }] }]
+  }, { name: "suite" });
+  assert.deepEqual(warnings, []);
+  assert.match(code, /test\.describe\("suite", \(\) => \{/);
+  assert.match(code, /await page\.goto\("https:\/\/example\.com\/login"\);/);
+  assert.match(code, /test\.beforeEach\(async \(\) => \{\n {4}await page\.locator\("#reset"\)\.click\(\);/);
+  assert.match(code, /vars\.title = await page\.title\(\);/);
+  assert.doesNotMatch(code, /browser_open|newContext/);
+});
+
+test("exportSpec：无法导出的步骤标记为 test.fixme 并列入 warnings", () => {
+  const { code, warnings } = exportSpec({
+    steps: [
+      { name: "a11y_audit", arguments: {} },
+      { if: { kind: "visible", selector: "#x" }, then: [] },
+      { name: "page_click", arguments: { ref: "e3" } }
+    ]
+  });
+  assert.equal(warnings.length, 3);
+  assert.equal(code.match(/test\.fixme\(true, "未导出的步骤 /g)?.length, 3);
+  assert.doesNotMatch(code, /\/\/ TODO/);
+});
+
+test("exportSpec / importSpec：含 // 的 URL 正则断言往返不变", () => {
+  const suite = {
+    tests: [{
+      name: "跳转",
+      steps: [
+        { name: "page_goto", arguments: { url: "https://a.com/x" } },
+        { name: "page_assert", arguments: { kind: "url_contains", text: "https://a.com/x", regex: true } },
+        { name: "page_assert", arguments: { kind: "text_contains", selector: "h1", text: "Hello" } }
+      ]
+    }]
+  };
+  const { code } = exportSpec(suite);
+  assert.match(code, /toHaveURL\(\/https:\\\/\\\/a\.com\\\/x\/\)/);
+  const imported = importSpec(code);
+  assert.deepEqual(imported.warnings, []);
+  assert.deepEqual(imported.suite.tests[0].steps[0], suite.tests[0].steps[0]);
+  assert.deepEqual(imported.suite.tests[0].steps[1].arguments, { kind: "url_contains", text: "https://a.com/x", regex: true });
+});
+
+test("importSpec：无法识别的语句记录行号并跳过", () => {
+  const { suite, warnings } = importSpec([
+    'import { test, expect } from "@playwright/test";',
+    'test("t", async ({ page }) => {',
+    '  await page.goto("https://example.com");',
+    "  const x = 1;",
+    "});"
+  ].join("\n"));
+  assert.deepEqual(suite.tests[0].steps, [{ name: "page_goto", arguments: { url: "https://example.com" } }]);
+  assert.equal(warnings.length, 1);
+  assert.match(warnings[0], /^第 4 行/);
+});
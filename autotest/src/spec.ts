@@ -0,0 +1,1220 @@
+// 计划/套件 JSON 与 Playwright Test 规格文件（.spec.ts）的互相转换
+import { LocatorMap, locatorCandidates, locatorName, SELECTOR_KEYS } from "./locators.js";
+
+export type SpecStep = { name: string; arguments?: Record<string, any>; saveAs?: string };
+export type SpecTest = { name: string; steps: SpecStep[]; parameters?: Record<string, any>[]; dataFile?: string };
+export type SpecSuite = {
+  vars?: Record<string, any>;
+  retries?: number;
+  testTimeoutMs?: number;
+  locators?: LocatorMap;
+  isolation?: "context" | "page" | "none";
+  setup?: SpecStep[];
+  beforeEach?: SpecStep[];
+  tests: SpecTest[];
+  afterEach?: SpecStep[];
+  teardown?: SpecStep[];
+};
+
+export type ExportResult = { code: string; warnings: string[] };
+export type ImportResult = { suite: SpecSuite; name?: string; warnings: string[] };
+
+// ---------------------------------------------------------------------------
+// 导出：JSON -> .spec.ts
+// ---------------------------------------------------------------------------
+
+const OUTPUT_TOOLS = new Set(["page_eval", "page_text_get", "page_attribute_get", "page_title_get", "page_url_get"]);
+
+// 浏览器生命周期由 Playwright Test 管理，这些步骤导出时省略
+const LIFECYCLE_TOOLS = new Set(["browser_open", "browser_close"]);
+
+// 把 test_plan_run（{ steps }）或 test_suite_run 参数转换为 Playwright Test 代码
+export function exportSpec(data: any, options: { name?: string } = {}): ExportResult {
+  const warnings: string[] = [];
+  const suite: SpecSuite = Array.isArray(data?.steps)
+    ? { vars: data.vars, tests: [{ name: options.name ?? "plan", steps: data.steps }] }
+    : data;
+  if (!Array.isArray(suite?.tests)) {
+    throw new Error("需要 test_plan_run（steps）或 test_suite_run（tests）格式的 JSON");
+  }
+  const usesVars = !!suite.vars || JSON.stringify(suite).includes("${") || JSON.stringify(suite).includes("\"saveAs\"");
+  const body = (steps: SpecStep[] | undefined, where: string) =>
+    (steps ?? []).flatMap((step, i) => {
+      const at = `${where} 第 ${i + 1} 步`;
+      return emitStep(withPrimarySelectors(step, suite.locators, at, warnings), at, warnings);
+    }).map((l) => `    ${l}`);
+
+  const out: string[] = [];
+  out.push(`import { test, expect, type Page } from "@playwright/test";`, "");
+  out.push(`test.describe(${lit(options.name ?? "mcp-web-autotest")}, () => {`);
+  out.push(`  test.describe.configure(${lit({ mode: "serial", ...(suite.retries ? { retries: suite.retries } : {}), ...(suite.testTimeoutMs ? { timeout: suite.testTimeoutMs } : {}) })});`, "");
+  if (suite.isolation && suite.isolation !== "none") warnings.push(`isolation: ${suite.isolation} 未导出，导出的测试共享同一页面`);
+  // 套件中的各测试共享同一个页面（与 test_suite_run 行为一致）
+  out.push("  let page: Page;");
+  if (usesVars) out.push(`  const vars: Record<string, any> = ${lit(suite.vars ?? {})};`);
+  out.push("");
+  out.push("  test.beforeAll(async ({ browser }) => {", "    page = await browser.newPage();", ...body(suite.setup, "setup"), "  });", "");
+  out.push("  test.afterAll(async () => {", ...body(suite.teardown, "teardown"), "    await page.close();", "  });");
+  if (suite.beforeEach?.length) out.push("", "  test.beforeEach(async () => {", ...body(suite.beforeEach, "beforeEach"), "  });");
+  if (suite.afterEach?.length) out.push("", "  test.afterEach(async () => {", ...body(suite.afterEach, "afterEach"), "  });");
+  for (const t of suite.tests) {
+    if (t.parameters || t.dataFile) warnings.push(`测试 '${t.name}'：parameters/dataFile 数据驱动未导出，仅导出一次测试体`);
+    out.push("", `  test(${lit(t.name)}, async () => {`, ...body(t.steps, `测试 '${t.name}'`), "  });");
+  }
+  out.push("});", "");
+  return { code: out.join("\n"), warnings };
+}
+
+// 具名定位器（"@名称"）按首选选择器导出，备选选择器只给出警告
+function withPrimarySelectors(step: SpecStep, locators: LocatorMap | undefined, where: string, warnings: string[]): SpecStep {
+  if (!step.arguments) return step;
+  const args = { ...step.arguments };
+  for (const key of SELECTOR_KEYS) {
+    const name = locatorName(args[key]);
+    if (name === undefined) continue;
+    try {
+      const candidates = locatorCandidates(name, locators);
+      if (candidates.length > 1) warnings.push(`${where}（${step.name}）：定位器 @${name} 的备选选择器未导出，使用首选 ${candidates[0]}`);
+      args[key] = candidates[0];
+    } catch (e: any) {
+      warnings.push(`${where}（${step.name}）：${e?.message ?? e}`);
+    }
+  }
+  return { ...step, arguments: args };
+}
+
+function emitStep(step: SpecStep, where: string, warnings: string[]): string[] {
+  if (typeof step.name !== "string") {
+    const reason = "控制流步骤（if/repeat/while/try/forEach）与宏调用暂不支持导出";
+    warnings.push(`${where}：${reason}`);
+    return [fixme(`${where}：${reason}`)];
+  }
+  const a = step.arguments ?? {};
+  const todo = (reason: string) => {
+    warnings.push(`${where}（${step.name}）：${reason}`);
+    return [fixme(`${where}（${step.name}）：${reason}`)];
+  };
+  if (LIFECYCLE_TOOLS.has(step.name)) return [];
+  let assign = "";
+  if (step.saveAs) {
+    if (OUTPUT_TOOLS.has(step.name)) assign = `${varRef(step.saveAs)} = `;
+    else warnings.push(`${where}（${step.name}）：saveAs 仅支持有返回值的读取类工具，已忽略`);
+  }
+  const needsTarget = () => {
+    const loc = locatorExpr(a);
+    if (!loc) throw new ExportSkip(a.ref ? "ref 只在录制时的页面中有效，无法导出，请改用 selector" : "缺少 selector");
+    return loc;
+  };
+  try {
+    switch (step.name) {
+      case "page_goto":
+        return [`await page.goto(${lit(a.url)}${optArg({ waitUntil: a.waitUntil })});`];
+      case "page_click":
+        return [`await ${needsTarget()}.click(${optObj({ button: a.button, clickCount: a.clickCount, modifiers: a.modifiers, timeout: a.timeoutMs })});`];
+      case "page_dblclick":
+        return [`await ${needsTarget()}.dblclick(${optObj({ modifiers: a.modifiers, timeout: a.timeoutMs })});`];
+      case "page_hover":
+        return [`await ${needsTarget()}.hover(${optObj({ modifiers: a.modifiers, timeout: a.timeoutMs })});`];
+      case "page_fill":
+        return [`await ${needsTarget()}.fill(${lit(a.value)});`];
+      case "page_type": {
+        const loc = needsTarget();
+        return [
+          ...(a.clear ? [`await ${loc}.fill("");`] : []),
+          `await ${loc}.pressSequentially(${lit(a.text)}${optArg({ delay: a.delayMs })});`
+        ];
+      }
+      case "keyboard_press": {
+        const target = a.selector || a.ref ? `${needsTarget()}.press` : "page.keyboard.press";
+        const line = `await ${target}(${lit(a.key)}${optArg({ delay: a.delayMs })});`;
+        return (a.count ?? 1) > 1 ? [`for (let i = 0; i < ${a.count}; i++) ${line}`] : [line];
+      }
+      case "page_select_option": {
+        const opts = [
+          ...(a.values ?? []).map((value: string) => ({ value })),
+          ...(a.labels ?? []).map((label: string) => ({ label })),
+          ...(a.indexes ?? []).map((index: number) => ({ index }))
+        ];
+        const arg = opts.length === 1 && "value" in opts[0] ? lit(opts[0].value) : lit(opts);
+        return [`await ${needsTarget()}.selectOption(${arg});`];
+      }
+      case "page_check":
+        return [`await ${needsTarget()}.check(${optObj({ timeout: a.timeoutMs })});`];
+      case "page_uncheck":
+        return [`await ${needsTarget()}.uncheck(${optObj({ timeout: a.timeoutMs })});`];
+      case "page_set_input_files":
+        return [`await ${needsTarget()}.setInputFiles(${lit(a.files)});`];
+      case "page_drag": {
+        const source = locatorExpr({ selector: a.source, frame: a.frame });
+        const target = locatorExpr({ selector: a.target, frame: a.frame });
+        if (!source || !target) throw new ExportSkip("需要 source 与 target 选择器");
+        return [`await ${source}.dragTo(${target});`];
+      }
+      case "page_scroll_into_view":
+        return [`await ${needsTarget()}.scrollIntoViewIfNeeded();`];
+      case "page_wait_for":
+        return [`await ${needsTarget()}.waitFor(${optObj({ state: a.state, timeout: a.timeoutMs })});`];
+      case "page_viewport":
+        return [`await page.setViewportSize(${lit({ width: a.width, height: a.height })});`];
+      case "page_screenshot":
+        return [`await page.screenshot(${optObj({ fullPage: a.fullPage })});`];
+      case "page_eval":
+        return [`${assign}await page.evaluate(${lit(a.expression)});`];
+      case "page_title_get":
+        return [`${assign}await page.title();`];
+      case "page_url_get":
+        return [`${assign}page.url();`];
+      case "page_text_get":
+        return [`${assign}await ${needsTarget()}.textContent();`];
+      case "page_attribute_get":
+        return [`${assign}await ${needsTarget()}.getAttribute(${lit(a.name)});`];
+      case "dialog_policy":
+        return [`page.on("dialog", (dialog) => dialog.${a.action === "accept" ? `accept(${a.promptText !== undefined ? lit(a.promptText) : ""})` : "dismiss()"});`];
+      case "network_route": {
+        const url = a.regex ? regexLiteral(a.url) : lit(a.url);
+        const action = a.action === "abort"
+          ? `route.abort(${a.errorCode ? lit(a.errorCode) : ""})`
+          : a.action === "continue"
+            ? "route.continue()"
+            : `route.fulfill(${lit(definedOnly({ status: a.status, body: a.json === undefined && !a.path ? (a.body ?? "") : undefined, json: a.json, path: a.path, contentType: a.contentType, headers: a.headers }))})`;
+        if (a.delayMs) warnings.push(`${where}（network_route）：delayMs 未导出`);
+        return [`await page.route(${url}, (route) => ${action});`];
+      }
+      case "page_assert":
+        return emitAssert(a);
+      case "visual_assert": {
+        const subject = a.selector || a.ref ? needsTarget() : "page";
+        const mask = (a.mask ?? []).map((sel: string) => locatorExpr({ selector: sel, frame: a.frame }));
+        const opts = definedOnly({
+          fullPage: subject === "page" ? a.fullPage : undefined,
+          threshold: a.threshold,
+          maxDiffPixels: a.maxDiffPixels,
+          maxDiffPixelRatio: a.maxDiffPercent !== undefined ? a.maxDiffPercent / 100 : undefined
+        });
+        const optText = Object.keys(opts).length || mask.length
+          ? `, { ${[...Object.entries(opts).map(([k, v]) => `${k}: ${lit(v)}`), ...(mask.length ? [`mask: [${mask.join(", ")}]`] : [])].join(", ")} }`
+          : "";
+        return [`await expect(${subject}).toHaveScreenshot(${lit(`${a.name}.png`)}${optText});`];
+      }
+      default:
+        return todo("没有对应的 Playwright Test API，已跳过");
+    }
+  } catch (e) {
+    if (e instanceof ExportSkip) return todo(e.message);
+    throw e;
+  }
+}
+
+class ExportSkip extends Error {}
+
+// 无法导出的步骤标记为 fixme，使导出的测试在报告中可见而不是静默缺少步骤
+function fixme(reason: string): string {
+  return `test.fixme(true, ${lit(`未导出的步骤 ${reason}`)});`;
+}
+
+function emitAssert(a: Record<string, any>): string[] {
+  const e = a.soft ? "expect.soft" : "expect";
+  const poll = a.soft ? "expect.configure({ soft: true }).poll" : "expect.poll";
+  const not = a.not ? ".not" : "";
+  const timeout = optArg({ timeout: a.timeoutMs });
+  const text = () => (a.regex ? regexLiteral(a.text, a.flags) : lit(a.text));
+  const contains = () => (a.regex ? regexLiteral(a.text, a.flags) : regexLiteral(escapeRegExp(a.text)));
+  const loc = () => {
+    const l = locatorExpr(a);
+    if (!l) throw new ExportSkip(a.ref ? "ref 无法导出，请改用 selector" : "缺少 selector");
+    return l;
+  };
+  const matcher: Record<string, string> = { visible: "toBeVisible", hidden: "toBeHidden", enabled: "toBeEnabled", checked: "toBeChecked", focused: "toBeFocused" };
+  const kind = a.kind ?? "visible";
+  if (matcher[kind]) return [`await ${e}(${loc()})${not}.${matcher[kind]}(${optObj({ timeout: a.timeoutMs })});`];
+  switch (kind) {
+    case "text_contains":
+      return [`await ${e}(${loc()})${not}.toContainText(${text()}${timeout});`];
+    case "text_is":
+      return [`await ${e}(${loc()})${not}.toHaveText(${text()}${timeout});`];
+    case "count_is": {
+      const op = a.op ?? "eq";
+      if (op === "eq") return [`await ${e}(${loc()})${not}.toHaveCount(${a.count}${timeout});`];
+      const compare: Record<string, string> = { gt: "toBeGreaterThan", gte: "toBeGreaterThanOrEqual", lt: "toBeLessThan", lte: "toBeLessThanOrEqual", ne: "toBe" };
+      const negate = (op === "ne") !== !!a.not ? ".not" : "";
+      return [`await ${poll}(() => ${loc()}.count()${timeout})${negate}.${compare[op]}(${a.count});`];
+    }
+    case "title_is":
+      return [`await ${e}(page)${not}.toHaveTitle(${text()}${timeout});`];
+    case "title_contains":
+      return [`await ${e}(page)${not}.toHaveTitle(${contains()}${timeout});`];
+    case "url_is":
+      return [`await ${e}(page)${not}.toHaveURL(${text()}${timeout});`];
+    case "url_contains":
+      return [`await ${e}(page)${not}.toHaveURL(${contains()}${timeout});`];
+    case "attribute_is":
+      return [`await ${e}(${loc()})${not}.toHaveAttribute(${lit(a.name)}, ${text()}${timeout});`];
+    case "value_is":
+      return [`await ${e}(${loc()})${not}.toHaveValue(${text()}${timeout});`];
+    case "css_is":
+      return [`await ${e}(${loc()})${not}.toHaveCSS(${lit(a.name)}, ${text()}${timeout});`];
+    case "predicate": {
+      const fn = a.selector ? `${loc()}.first().evaluate((el) => (${a.expression}))` : `page.evaluate(() => (${a.expression}))`;
+      return [`await ${poll}(() => ${fn}${timeout}).${a.not ? "toBeFalsy" : "toBeTruthy"}();`];
+    }
+    default:
+      throw new ExportSkip(`page_assert kind=${kind} 没有对应的 expect 断言`);
+  }
+}
+
+// page.locator(...)，frame 依次映射为 frameLocator / page.frame()
+function locatorExpr(a: Record<string, any>): string | null {
+  if (!a.selector) return null;
+  let scope = "page";
+  const frame = a.frame;
+  if (typeof frame === "string") scope = `page.frameLocator(${lit(frame)})`;
+  else if (Array.isArray(frame)) scope = frame.reduce((acc: string, f: string) => `${acc}.frameLocator(${lit(f)})`, "page");
+  else if (frame && typeof frame === "object") scope = `page.frame(${lit(definedOnly({ name: frame.name, url: frame.url }))})!`;
+  return `${scope}.locator(${lit(a.selector)})`;
+}
+
+// 字面量：含 ${...} 变量占位的字符串转为模板字符串（vars.x / process.env.X）
+function lit(v: any): string {
+  if (typeof v === "string") {
+    if (!/\$\{[^}]+\}/.test(v)) return JSON.stringify(v);
+    const parts = v.split(/\$\{([^}]+)\}/);
+    return "`" + parts.map((p, i) => (i % 2 ? `\${${placeholderExpr(p.trim())}}` : p.replace(/[`\\]/g, "\\$&").replace(/\$\{/g, "\\${"))).join("") + "`";
+  }
+  if (Array.isArray(v)) return `[${v.map(lit).join(", ")}]`;
+  if (v && typeof v === "object") {
+    const entries = Object.entries(v).filter(([, x]) => x !== undefined);
+    if (!entries.length) return "{}";
+    return `{ ${entries.map(([k, x]) => `${/^[A-Za-z_$][\w$]*$/.test(k) ? k : JSON.stringify(k)}: ${lit(x)}`).join(", ")} }`;
+  }
+  return v === undefined ? "undefined" : JSON.stringify(v);
+}
+
+function placeholderExpr(name: string): string {
+  if (name.startsWith("env.")) return `process.env.${name.slice(4)}`;
+  return varRef(name);
+}
+
+function varRef(name: string): string {
+  return "vars" + name.split(".").map((k) => (/^[A-Za-z_$][\w$]*$/.test(k) ? `.${k}` : `[${JSON.stringify(k)}]`)).join("");
+}
+
+function definedOnly(o: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(Object.entries(o).filter(([, v]) => v !== undefined));
+}
+
+// 作为唯一参数的选项对象（无选项时为空）
+function optObj(o: Record<string, any>): string {
+  const d = definedOnly(o);
+  return Object.keys(d).length ? lit(d) : "";
+}
+
+// 追加在其它参数之后的选项对象
+function optArg(o: Record<string, any>): string {
+  const s = optObj(o);
+  return s ? `, ${s}` : "";
+}
+
+// 转义所有未转义的 /；含换行或为空（// 会成为注释）时改用 new RegExp
+export function regexLiteral(pattern: string, flags = ""): string {
+  if (!pattern || /[\n\r\u2028\u2029]/.test(pattern)) return `new RegExp(${JSON.stringify(pattern)}, ${JSON.stringify(flags)})`;
+  let out = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i];
+    if (c === "\\") {
+      out += c + (pattern[i + 1] ?? "");
+      i++;
+    } else {
+      out += c === "/" ? "\\/" : c;
+    }
+  }
+  return `/${out}/${flags}`;
+}
+
+// RegExp.source 会把 / 转义为 \/，导入时还原（两者匹配相同，保持与原 JSON 一致）
+function patternOf(re: RegExp): string {
+  return re.source.replace(/\\([\s\S])/g, (m, ch) => (ch === "/" ? "/" : m));
+}
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+}
+
+// ---------------------------------------------------------------------------
+// 导入：.spec.ts -> JSON（尽力而为，仅识别导出器生成的及常见的简单写法）
+// ---------------------------------------------------------------------------
+
+type Token =
+  | { t: "str"; v: string; start: number; end: number }
+  | { t: "num"; v: number; start: number; end: number }
+  | { t: "re"; v: { pattern: string; flags: string }; start: number; end: number }
+  | { t: "id"; v: string; start: number; end: number }
+  | { t: "p"; v: string; start: number; end: number };
+
+type Node =
+  | { k: "lit"; v: any; start: number; end: number }
+  | { k: "id"; name: string; start: number; end: number }
+  | { k: "member"; obj: Node; prop: string; start: number; end: number }
+  | { k: "call"; callee: Node; args: Node[]; start: number; end: number }
+  | { k: "arrow"; params: string[]; body: Node[] | Node; start: number; end: number }
+  | { k: "await"; arg: Node; start: number; end: number }
+  | { k: "assign"; target: Node; value: Node; start: number; end: number }
+  | { k: "array"; items: Node[]; start: number; end: number }
+  | { k: "object"; props: Array<[string, Node]>; start: number; end: number }
+  | { k: "new"; callee: Node; args: Node[]; start: number; end: number }
+  | { k: "unary"; op: string; arg: Node; start: number; end: number }
+  | { k: "decl"; name: string; value: Node | null; start: number; end: number }
+  | { k: "raw"; start: number; end: number }
+  | { k: "skip"; reason: string; start: number; end: number };
+
+class ParseError extends Error {}
+
+const PUNCT = ["...", "===", "!==", "=>", "?.", "==", "!=", "&&", "||", "??", ">=", "<=", "++", "--", "+=", "-="];
+
+function tokenize(src: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  const regexAllowed = () => {
+    const prev = tokens[tokens.length - 1];
+    if (!prev) return true;
+    if (prev.t === "p") return !/^[)\]}]$/.test(prev.v);
+    return prev.t === "id" && ["return", "await", "typeof", "case"].includes(prev.v);
+  };
+  while (i < src.length) {
+    const c = src[i];
+    if (/\s/.test(c)) { i++; continue; }
+    if (src.startsWith("//", i)) { i = src.indexOf("\n", i) === -1 ? src.length : src.indexOf("\n", i); continue; }
+    if (src.startsWith("/*", i)) { const j = src.indexOf("*/", i + 2); i = j === -1 ? src.length : j + 2; continue; }
+    const start = i;
+    if (c === "\"" || c === "'") {
+      let v = "";
+      i++;
+      while (i < src.length && src[i] !== c) {
+        if (src[i] === "\\") { v += unescapeChar(src, i); i += escapeLength(src, i); continue; }
+        v += src[i++];
+      }
+      i++;
+      tokens.push({ t: "str", v, start, end: i });
+      continue;
+    }
+    if (c === "`") {
+      let v = "";
+      i++;
+      while (i < src.length && src[i] !== "`") {
+        if (src[i] === "\\") { v += unescapeChar(src, i); i += escapeLength(src, i); continue; }
+        if (src.startsWith("${", i)) {
+          let depth = 1;
+          let j = i + 2;
+          while (j < src.length && depth) { if (src[j] === "{") depth++; else if (src[j] === "}") depth--; j++; }
+          v += `\${${fromPlaceholderExpr(src.slice(i + 2, j - 1).trim())}}`;
+          i = j;
+          continue;
+        }
+        v += src[i++];
+      }
+      i++;
+      tokens.push({ t: "str", v, start, end: i });
+      continue;
+    }
+    if (/[0-9]/.test(c) || (c === "." && /[0-9]/.test(src[i + 1] ?? ""))) {
+      const m = /^(?:0x[0-9a-f]+|\d*\.?\d+(?:e[+-]?\d+)?)/i.exec(src.slice(i))!;
+      i += m[0].length;
+      tokens.push({ t: "num", v: Number(m[0]), start, end: i });
+      continue;
+    }
+    if (/[A-Za-z_$]/.test(c)) {
+      const m = /^[\w$]+/.exec(src.slice(i))!;
+      i += m[0].length;
+      tokens.push({ t: "id", v: m[0], start, end: i });
+      continue;
+    }
+    if (c === "/" && regexAllowed()) {
+      let j = i + 1;
+      let inClass = false;
+      while (j < src.length && (src[j] !== "/" || inClass)) {
+        if (src[j] === "\\") j++;
+        else if (src[j] === "[") inClass = true;
+        else if (src[j] === "]") inClass = false;
+        else if (src[j] === "\n") throw new ParseError(`未闭合的正则字面量（偏移 ${i}）`);
+        j++;
+      }
+      const pattern = src.slice(i + 1, j);
+      const flags = /^[a-z]*/.exec(src.slice(j + 1))![0];
+      i = j + 1 + flags.length;
+      tokens.push({ t: "re", v: { pattern, flags }, start, end: i });
+      continue;
+    }
+    const p = PUNCT.find((x) => src.startsWith(x, i)) ?? c;
+    i += p.length;
+    tokens.push({ t: "p", v: p, start, end: i });
+  }
+  return tokens;
+}
+
+function escapeLength(src: string, i: number): number {
+  const n = src[i + 1];
+  if (n === "u") return src[i + 2] === "{" ? src.indexOf("}", i) - i + 1 : 6;
+  if (n === "x") return 4;
+  return 2;
+}
+
+function unescapeChar(src: string, i: number): string {
+  const n = src[i + 1];
+  const map: Record<string, string> = { n: "\n", r: "\r", t: "\t", b: "\b", f: "\f", v: "\v", "0": "\0" };
+  if (n in map) return map[n];
+  if (n === "u") {
+    const hex = src[i + 2] === "{" ? src.slice(i + 3, src.indexOf("}", i)) : src.slice(i + 2, i + 6);
+    return String.fromCodePoint(parseInt(hex, 16));
+  }
+  if (n === "x") return String.fromCharCode(parseInt(src.slice(i + 2, i + 4), 16));
+  if (n === "\n") return "";
+  return n;
+}
+
+// 模板字符串中的 vars.x / process.env.X 还原为 ${x} / ${env.X}
+function fromPlaceholderExpr(expr: string): string {
+  if (expr.startsWith("process.env.")) return `env.${expr.slice("process.env.".length)}`;
+  if (expr.startsWith("vars.")) return expr.slice(5);
+  const m = /^vars\[["']([^"']+)["']\]$/.exec(expr);
+  return m ? m[1] : expr;
+}
+
+class Parser {
+  private i = 0;
+  constructor(private tokens: Token[], private src: string) {}
+
+  private peek(offset = 0): Token | undefined { return this.tokens[this.i + offset]; }
+  private is(v: string, offset = 0): boolean {
+    const t = this.peek(offset);
+    return !!t && (t.t === "p" || t.t === "id") && t.v === v;
+  }
+  private next(): Token {
+    const t = this.tokens[this.i++];
+    if (!t) throw new ParseError("意外的文件结尾");
+    return t;
+  }
+  private expect(v: string): Token {
+    const t = this.next();
+    if ((t.t !== "p" && t.t !== "id") || t.v !== v) throw new ParseError(`期望 '${v}'，实际为 '${this.src.slice(t.start, t.end)}'`);
+    return t;
+  }
+  private get pos(): number { return this.peek()?.start ?? this.src.length; }
+  private get prevEnd(): number { return this.tokens[this.i - 1]?.end ?? 0; }
+  done(): boolean { return this.i >= this.tokens.length; }
+
+  // 解析到块结束（`}`）或文件结尾；无法识别的语句以 skip 节点保留其源码位置
+  statements(): Node[] {
+    const out: Node[] = [];
+    while (!this.done() && !this.is("}")) {
+      if (this.is(";")) { this.i++; continue; }
+      const start = this.pos;
+      const saved = this.i;
+      try {
+        out.push(this.statement());
+      } catch (e: any) {
+        if (!(e instanceof ParseError)) throw e;
+        this.i = saved;
+        this.skipStatement();
+        out.push({ k: "skip", reason: e.message, start, end: this.prevEnd });
+      }
+    }
+    return out;
+  }
+
+  private statement(): Node {
+    const start = this.pos;
+    const t = this.peek()!;
+    if (t.t === "id" && t.v === "import") {
+      while (!this.done() && this.peek()!.t !== "str") this.i++;
+      this.i++;
+      return { k: "skip", reason: "", start, end: this.prevEnd };
+    }
+    if (t.t === "id" && ["const", "let", "var"].includes(t.v)) {
+      this.i++;
+      const name = this.next();
+      if (name.t !== "id") throw new ParseError("不支持解构声明");
+      // 跳过类型注解
+      if (this.is(":")) {
+        let depth = 0;
+        while (!this.done() && !((this.is("=") || this.is(";")) && depth === 0)) {
+          if (this.is("<") || this.is("(") || this.is("{") || this.is("[")) depth++;
+          else if (this.is(">") || this.is(")") || this.is("}") || this.is("]")) depth--;
+          this.i++;
+        }
+      }
+      const value = this.is("=") ? (this.i++, this.expr()) : null;
+      return { k: "decl", name: name.v, value, start, end: this.prevEnd };
+    }
+    if (t.t === "id" && ["for", "if", "while", "do", "switch", "try", "function", "class", "return"].includes(t.v)) {
+      throw new ParseError(`不支持的语句 '${t.v}'`);
+    }
+    return this.expr();
+  }
+
+  private skipStatement(): void {
+    let depth = 0;
+    while (!this.done()) {
+      const t = this.peek()!;
+      if (t.t === "p" && ["(", "[", "{"].includes(t.v)) depth++;
+      if (t.t === "p" && [")", "]", "}"].includes(t.v)) {
+        if (depth === 0) return;
+        depth--;
+        this.i++;
+        if (depth === 0 && t.v === "}" && !this.is(")") && !this.is(".") && !this.is(",")) return;
+        continue;
+      }
+      this.i++;
+      if (depth === 0 && t.t === "p" && t.v === ";") return;
+    }
+  }
+
+  expr(): Node {
+    const start = this.pos;
+    if (this.is("await")) {
+      this.i++;
+      const arg = this.expr();
+      return { k: "await", arg, start, end: arg.end };
+    }
+    const arrow = this.tryArrow();
+    if (arrow) return arrow;
+    const left = this.postfix();
+    if (this.is("=")) {
+      this.i++;
+      const value = this.expr();
+      return { k: "assign", target: left, value, start, end: value.end };
+    }
+    if (this.is("as")) {
+      // TS 类型断言：跳过类型名
+      this.i += 2;
+    }
+    const t = this.peek();
+    if (t && t.t === "p" && /^(\+|-|\*|\/|%|&&|\|\||\?\?|===|!==|==|!=|<|>|<=|>=|\?)$/.test(t.v)) {
+      throw new ParseError(`不支持的运算符 '${t.v}'`);
+    }
+    return left;
+  }
+
+  private tryArrow(): Node | null {
+    const start = this.pos;
+    let j = this.i;
+    if (this.is("async")) j++;
+    const params: string[] = [];
+    const t = this.tokens[j];
+    if (!t) return null;
+    if (t.t === "id" && this.tokens[j + 1]?.v === "=>") {
+      params.push(t.v);
+      j += 2;
+    } else if (t.t === "p" && t.v === "(") {
+      let depth = 0;
+      let k = j;
+      for (; k < this.tokens.length; k++) {
+        const x = this.tokens[k];
+        if (x.t === "p" && ["(", "[", "{"].includes(x.v)) depth++;
+        if (x.t === "p" && [")", "]", "}"].includes(x.v)) depth--;
+        if (depth === 0) break;
+      }
+      if (this.tokens[k + 1]?.v !== "=>" || this.tokens[k + 1]?.t !== "p") return null;
+      for (let m = j + 1; m < k; m++) if (this.tokens[m].t === "id") params.push(String(this.tokens[m].v));
+      j = k + 2;
+    } else {
+      return null;
+    }
+    this.i = j;
+    if (this.is("{")) {
+      this.i++;
+      const body = this.statements();
+      this.expect("}");
+      return { k: "arrow", params, body, start, end: this.prevEnd };
+    }
+    // 表达式体可能是任意 JS（如 predicate），无法解析时按原始源码保留
+    const bodyStart = this.i;
+    try {
+      const body = this.expr();
+      return { k: "arrow", params, body, start, end: body.end };
+    } catch (e) {
+      if (!(e instanceof ParseError)) throw e;
+      this.i = bodyStart;
+      let depth = 0;
+      while (!this.done()) {
+        const x = this.peek()!;
+        if (x.t === "p" && ["(", "[", "{"].includes(x.v)) depth++;
+        else if (x.t === "p" && [")", "]", "}"].includes(x.v)) { if (depth === 0) break; depth--; }
+        else if (depth === 0 && x.t === "p" && (x.v === "," || x.v === ";")) break;
+        this.i++;
+      }
+      const body: Node = { k: "raw", start: this.tokens[bodyStart]?.start ?? this.pos, end: this.prevEnd };
+      return { k: "arrow", params, body, start, end: body.end };
+    }
+  }
+
+  private postfix(): Node {
+    let node = this.primary();
+    for (;;) {
+      if (this.is(".") || this.is("?.")) {
+        this.i++;
+        if (this.is("(")) continue;
+        const prop = this.next();
+        if (prop.t !== "id") throw new ParseError("期望属性名");
+        node = { k: "member", obj: node, prop: prop.v, start: node.start, end: prop.end };
+      } else if (this.is("!") && (this.is(".", 1) || this.is(")", 1) || this.is(";", 1))) {
+        // TS 非空断言
+        this.i++;
+      } else if (this.is("(")) {
+        const args = this.args(")");
+        node = { k: "call", callee: node, args, start: node.start, end: this.prevEnd };
+      } else if (this.is("[")) {
+        this.i++;
+        const index = this.expr();
+        this.expect("]");
+        if (index.k !== "lit") throw new ParseError("不支持计算属性访问");
+        node = { k: "member", obj: node, prop: String(index.v), start: node.start, end: this.prevEnd };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private args(close: string): Node[] {
+    this.next();
+    const out: Node[] = [];
+    while (!this.is(close)) {
+      out.push(this.expr());
+      if (this.is(",")) this.i++;
+      else if (!this.is(close)) throw new ParseError(`期望 ',' 或 '${close}'`);
+    }
+    this.i++;
+    return out;
+  }
+
+  private primary(): Node {
+    const start = this.pos;
+    const t = this.next();
+    switch (t.t) {
+      case "str":
+      case "num":
+        return { k: "lit", v: t.v, start, end: t.end };
+      case "re":
+        return { k: "lit", v: new RegExp(t.v.pattern, t.v.flags), start, end: t.end };
+      case "id":
+        if (t.v === "true" || t.v === "false") return { k: "lit", v: t.v === "true", start, end: t.end };
+        if (t.v === "null" || t.v === "undefined") return { k: "lit", v: t.v === "null" ? null : undefined, start, end: t.end };
+        if (t.v === "new") {
+          const callee = this.primary();
+          const args = this.is("(") ? this.args(")") : [];
+          return { k: "new", callee, args, start, end: this.prevEnd };
+        }
+        return { k: "id", name: t.v, start, end: t.end };
+      case "p":
+        if (t.v === "(") {
+          const inner = this.expr();
+          this.expect(")");
+          return inner;
+        }
+        if (t.v === "[") {
+          this.i--;
+          const items = this.args("]");
+          return { k: "array", items, start, end: this.prevEnd };
+        }
+        if (t.v === "{") {
+          const props: Array<[string, Node]> = [];
+          while (!this.is("}")) {
+            const key = this.next();
+            if (key.t !== "id" && key.t !== "str" && key.t !== "num") throw new ParseError("不支持的对象键");
+            const name = String(key.v);
+            if (this.is(":")) {
+              this.i++;
+              props.push([name, this.expr()]);
+            } else {
+              props.push([name, { k: "id", name, start: key.start, end: key.end }]);
+            }
+            if (this.is(",")) this.i++;
+            else if (!this.is("}")) throw new ParseError("期望 ',' 或 '}'");
+          }
+          this.i++;
+          return { k: "object", props, start, end: this.prevEnd };
+        }
+        if (t.v === "-" || t.v === "!") {
+          const arg = this.postfix();
+          return { k: "unary", op: t.v, arg, start, end: arg.end };
+        }
+    }
+    throw new ParseError(`无法识别的语法 '${this.src.slice(t.start, t.end)}'`);
+  }
+}
+
+// 把 .spec.ts 源码转换为套件 JSON；无法识别的语句记录到 warnings 并跳过
+export function importSpec(source: string): ImportResult {
+  const warnings: string[] = [];
+  const suite: SpecSuite = { setup: [], beforeEach: [], tests: [], afterEach: [], teardown: [] };
+  let name: string | undefined;
+  const lineOf = (offset: number) => source.slice(0, offset).split("\n").length;
+  const program = new Parser(tokenize(source), source).statements();
+
+  const walk = (nodes: Node[]) => {
+    for (const node of nodes) {
+      if (node.k === "skip") {
+        if (node.reason) warnings.push(`第 ${lineOf(node.start)} 行：${node.reason}，已跳过`);
+        continue;
+      }
+      if (node.k === "decl") {
+        if (node.name === "vars" && node.value?.k === "object") {
+          try { suite.vars = evalLiteral(node.value); } catch { warnings.push(`第 ${lineOf(node.start)} 行：vars 不是字面量，已忽略`); }
+        }
+        continue;
+      }
+      const call = node.k === "await" ? node.arg : node;
+      if (call.k !== "call") {
+        warnings.push(`第 ${lineOf(node.start)} 行：无法识别的顶层语句，已跳过`);
+        continue;
+      }
+      const callee = chainName(call.callee);
+      const fn = call.args.find((a): a is Extract<Node, { k: "arrow" }> => a.k === "arrow");
+      const body = fn && Array.isArray(fn.body) ? fn.body : [];
+      if (callee === "test.describe" || callee === "test.describe.serial" || callee === "test.describe.parallel") {
+        if (call.args[0]?.k === "lit" && name === undefined) name = String(call.args[0].v);
+        walk(body);
+      } else if (callee === "test.describe.configure") {
+        const opts = call.args[0]?.k === "object" ? evalLiteral(call.args[0]) : {};
+        if (typeof opts.retries === "number") suite.retries = opts.retries;
+        if (typeof opts.timeout === "number") suite.testTimeoutMs = opts.timeout;
+      } else if (callee === "test.beforeAll") {
+        suite.setup!.push(...convertBody(body, source, warnings, lineOf));
+      } else if (callee === "test.beforeEach") {
+        suite.beforeEach!.push(...convertBody(body, source, warnings, lineOf));
+      } else if (callee === "test.afterAll") {
+        suite.teardown!.push(...convertBody(body, source, warnings, lineOf));
+      } else if (callee === "test.afterEach") {
+        suite.afterEach!.push(...convertBody(body, source, warnings, lineOf));
+      } else if (callee === "test" || callee === "test.only") {
+        const testName = call.args[0]?.k === "lit" ? String(call.args[0].v) : `test ${suite.tests.length + 1}`;
+        suite.tests.push({ name: testName, steps: convertBody(body, source, warnings, lineOf) });
+      } else if (callee === "test.skip" || callee === "test.fixme") {
+        warnings.push(`第 ${lineOf(node.start)} 行：${callee} 的测试未导入`);
+      } else {
+        warnings.push(`第 ${lineOf(node.start)} 行：无法识别的顶层调用 ${callee ?? ""}，已跳过`);
+      }
+    }
+  };
+  walk(program);
+  if (!suite.setup!.length) delete suite.setup;
+  if (!suite.beforeEach!.length) delete suite.beforeEach;
+  if (!suite.afterEach!.length) delete suite.afterEach;
+  if (!suite.teardown!.length) delete suite.teardown;
+  return { suite, name, warnings };
+}
+
+function convertBody(body: Node[], source: string, warnings: string[], lineOf: (offset: number) => number): SpecStep[] {
+  const steps: SpecStep[] = [];
+  for (const node of body) {
+    if (node.k === "skip") {
+      warnings.push(`第 ${lineOf(node.start)} 行：${node.reason}，已跳过`);
+      continue;
+    }
+    try {
+      const step = convertStatement(node, source);
+      if (step) steps.push(step);
+    } catch (e: any) {
+      if (!(e instanceof ParseError)) throw e;
+      warnings.push(`第 ${lineOf(node.start)} 行：${e.message}，已跳过：${source.slice(node.start, node.end).split("\n")[0]}`);
+    }
+  }
+  return steps;
+}
+
+// 生成代码中的样板语句（创建/关闭共享页面）
+function isBoilerplate(node: Node): boolean {
+  const call = unwrapAwait(node.k === "assign" ? node.value : node);
+  const name = call.k === "call" ? chainName(call.callee) : null;
+  return name === "browser.newPage" || name === "page.close" || name === "context.newPage";
+}
+
+function convertStatement(node: Node, source: string): SpecStep | null {
+  if (isBoilerplate(node)) return null;
+  if (node.k === "decl") {
+    throw new ParseError(`局部变量 ${node.name} 不受支持`);
+  }
+  let saveAs: string | undefined;
+  let expr: Node = node;
+  if (node.k === "assign") {
+    const target = chainName(node.target);
+    if (!target?.startsWith("vars.")) throw new ParseError("仅支持赋值给 vars.*");
+    saveAs = target.slice(5);
+    expr = node.value;
+  }
+  const step = convertCall(unwrapAwait(expr), source);
+  if (saveAs) step.saveAs = saveAs;
+  return step;
+}
+
+function convertCall(node: Node, source: string): SpecStep {
+  if (node.k !== "call" || node.callee.k !== "member") {
+    if (node.k === "call" && node.callee.k === "id" && node.callee.name === "expect") throw new ParseError("expect 缺少匹配器");
+    throw new ParseError("无法识别的语句");
+  }
+  const method = node.callee.prop;
+  const obj = node.callee.obj;
+  const args = node.args;
+
+  const expectation = parseExpect(node.callee.obj);
+  if (expectation) return convertExpect(expectation, method, args, source);
+
+  // page.* 与 page.keyboard.*
+  const objName = chainName(obj);
+  if (objName === "page") {
+    switch (method) {
+      case "goto":
+        return step("page_goto", { url: str(args[0]), ...opts(args[1], { waitUntil: "waitUntil" }) });
+      case "setViewportSize":
+        return step("page_viewport", evalLiteral(args[0]));
+      case "screenshot":
+        return step("page_screenshot", opts(args[0], { fullPage: "fullPage" }));
+      case "evaluate":
+        return step("page_eval", { expression: evaluateSource(args[0], source) });
+      case "title":
+        return step("page_title_get", {});
+      case "url":
+        return step("page_url_get", {});
+      case "on":
+        if (str(args[0]) === "dialog") return dialogStep(args[1]);
+        break;
+      case "route":
+        return routeStep(args[0], args[1]);
+    }
+    throw new ParseError(`page.${method} 不受支持`);
+  }
+  if (objName === "page.keyboard" && method === "press") {
+    return step("keyboard_press", { key: str(args[0]), ...opts(args[1], { delay: "delayMs" }) });
+  }
+
+  const target = toTarget(obj);
+  if (!target) throw new ParseError(`无法识别的调用对象 .${method}()`);
+  switch (method) {
+    case "click":
+      return step("page_click", { ...target, ...opts(args[0], { button: "button", clickCount: "clickCount", modifiers: "modifiers", timeout: "timeoutMs" }) });
+    case "dblclick":
+      return step("page_dblclick", { ...target, ...opts(args[0], { modifiers: "modifiers", timeout: "timeoutMs" }) });
+    case "hover":
+      return step("page_hover", { ...target, ...opts(args[0], { modifiers: "modifiers", timeout: "timeoutMs" }) });
+    case "fill":
+      return step("page_fill", { ...target, value: str(args[0]) });
+    case "pressSequentially":
+    case "type":
+      return step("page_type", { ...target, text: str(args[0]), ...opts(args[1], { delay: "delayMs" }) });
+    case "press":
+      return step("keyboard_press", { ...target, key: str(args[0]), ...opts(args[1], { delay: "delayMs", timeout: "timeoutMs" }) });
+    case "check":
+      return step("page_check", { ...target, ...opts(args[0], { timeout: "timeoutMs" }) });
+    case "uncheck":
+      return step("page_uncheck", { ...target, ...opts(args[0], { timeout: "timeoutMs" }) });
+    case "selectOption": {
+      const raw = evalLiteral(args[0]);
+      const list = Array.isArray(raw) ? raw : [raw];
+      const values = list.filter((x) => typeof x === "string" || x?.value !== undefined).map((x) => (typeof x === "string" ? x : x.value));
+      const labels = list.filter((x) => x?.label !== undefined).map((x) => x.label);
+      const indexes = list.filter((x) => x?.index !== undefined).map((x) => x.index);
+      return step("page_select_option", { ...target, ...(values.length ? { values } : {}), ...(labels.length ? { labels } : {}), ...(indexes.length ? { indexes } : {}) });
+    }
+    case "setInputFiles": {
+      const files = evalLiteral(args[0]);
+      return step("page_set_input_files", { ...target, files: Array.isArray(files) ? files : [files] });
+    }
+    case "scrollIntoViewIfNeeded":
+      return step("page_scroll_into_view", target);
+    case "waitFor":
+      return step("page_wait_for", { ...target, ...opts(args[0], { state: "state", timeout: "timeoutMs" }) });
+    case "dragTo": {
+      const to = args[0] ? toTarget(args[0]) : null;
+      if (!to) throw new ParseError("dragTo 的目标无法识别");
+      return step("page_drag", { source: target.selector, target: to.selector, ...(target.frame ? { frame: target.frame } : {}) });
+    }
+    case "textContent":
+    case "innerText":
+      return step("page_text_get", target);
+    case "getAttribute":
+      return step("page_attribute_get", { ...target, name: str(args[0]) });
+  }
+  throw new ParseError(`.${method}() 不受支持`);
+}
+
+type Expectation = { target: Node | null; poll: Node | null; soft: boolean; not: boolean; pollTimeout?: number };
+
+// expect(x) / expect.soft(x) / expect.poll(fn, opts)，可带 .not
+function parseExpect(node: Node): Expectation | null {
+  let not = false;
+  let cur = node;
+  if (cur.k === "member" && cur.prop === "not") {
+    not = true;
+    cur = cur.obj;
+  }
+  if (cur.k !== "call") return null;
+  const name = chainName(cur.callee);
+  if (name === "expect" || name === "expect.soft") return { target: cur.args[0] ?? null, poll: null, soft: name === "expect.soft", not };
+  // expect.poll(...) 或 expect.configure({ soft: true }).poll(...)
+  const configured = cur.callee.k === "member" && cur.callee.prop === "poll" && cur.callee.obj.k === "call" && chainName(cur.callee.obj.callee) === "expect.configure"
+    ? cur.callee.obj
+    : null;
+  if (name === "expect.poll" || configured) {
+    const timeout = cur.args[1]?.k === "object" ? evalLiteral(cur.args[1]).timeout : undefined;
+    const soft = configured?.args[0]?.k === "object" ? !!evalLiteral(configured.args[0]).soft : false;
+    return { target: null, poll: cur.args[0] ?? null, soft, not, pollTimeout: timeout };
+  }
+  return null;
+}
+
+function convertExpect(e: Expectation, matcher: string, args: Node[], source: string): SpecStep {
+  const base = { ...(e.not ? { not: true } : {}), ...(e.soft ? { soft: true } : {}) };
+  const timeoutOf = (n: Node | undefined) => (n?.k === "object" ? opts(n, { timeout: "timeoutMs" }) : {});
+  const textArg = (n: Node | undefined): { text: string; regex?: boolean; flags?: string } => {
+    const v = evalLiteral(n!);
+    if (Array.isArray(v)) throw new ParseError("数组形式的期望文本不受支持");
+    return v instanceof RegExp ? { text: patternOf(v), regex: true, ...(v.flags ? { flags: v.flags } : {}) } : { text: String(v) };
+  };
+  if (e.poll) {
+    const fn = e.poll;
+    if (fn.k !== "arrow" || Array.isArray(fn.body)) throw new ParseError("expect.poll 仅支持单表达式箭头函数");
+    const body = unwrapAwait(fn.body);
+    const timeout = { ...(e.pollTimeout !== undefined ? { timeoutMs: e.pollTimeout } : {}), ...(e.soft ? { soft: true } : {}) };
+    if (body.k === "call" && body.callee.k === "member" && body.callee.prop === "count") {
+      const target = toTarget(body.callee.obj);
+      const ops: Record<string, string> = { toBeGreaterThan: "gt", toBeGreaterThanOrEqual: "gte", toBeLessThan: "lt", toBeLessThanOrEqual: "lte", toBe: "eq", toEqual: "eq" };
+      if (target && ops[matcher]) {
+        let op = ops[matcher];
+        let not = e.not;
+        if (op === "eq" && not) { op = "ne"; not = false; }
+        return step("page_assert", { kind: "count_is", ...target, op, count: evalLiteral(args[0]), ...timeout, ...(not ? { not } : {}) });
+      }
+    }
+    if (body.k === "call" && body.callee.k === "member" && body.callee.prop === "evaluate" && (matcher === "toBeTruthy" || matcher === "toBeFalsy")) {
+      const not = (matcher === "toBeFalsy") !== e.not;
+      const expression = evaluateSource(body.args[0], source);
+      const owner = chainName(body.callee.obj);
+      const target = owner === "page" ? {} : toTarget(body.callee.obj);
+      if (target) return step("page_assert", { kind: "predicate", ...target, expression, ...timeout, ...(not ? { not } : {}) });
+    }
+    throw new ParseError("无法识别的 expect.poll 断言");
+  }
+  const subject = e.target;
+  if (!subject) throw new ParseError("expect 缺少参数");
+  const isPage = chainName(subject) === "page";
+  const simple: Record<string, [string, boolean]> = {
+    toBeVisible: ["visible", false], toBeHidden: ["hidden", false], toBeEnabled: ["enabled", false],
+    toBeDisabled: ["enabled", true], toBeChecked: ["checked", false], toBeFocused: ["focused", false]
+  };
+  if (isPage) {
+    switch (matcher) {
+      case "toHaveTitle":
+      case "toHaveURL": {
+        const t = textArg(args[0]);
+        const kind = matcher === "toHaveTitle" ? (t.regex ? "title_contains" : "title_is") : (t.regex ? "url_contains" : "url_is");
+        return step("page_assert", { kind, ...t, ...timeoutOf(args[1]), ...base });
+      }
+      case "toHaveScreenshot":
+        return screenshotStep(args, {});
+    }
+    throw new ParseError(`expect(page).${matcher} 不受支持`);
+  }
+  const target = toTarget(subject);
+  if (!target) throw new ParseError("expect 的对象无法识别");
+  if (simple[matcher]) {
+    const [kind, invert] = simple[matcher];
+    const not = invert !== e.not;
+    return step("page_assert", { kind, ...target, ...timeoutOf(args[0]), ...(not ? { not } : {}), ...(e.soft ? { soft: true } : {}) });
+  }
+  switch (matcher) {
+    case "toContainText":
+      return step("page_assert", { kind: "text_contains", ...target, ...textArg(args[0]), ...timeoutOf(args[1]), ...base });
+    case "toHaveText":
+      return step("page_assert", { kind: "text_is", ...target, ...textArg(args[0]), ...timeoutOf(args[1]), ...base });
+    case "toHaveCount":
+      return step("page_assert", { kind: "count_is", ...target, count: evalLiteral(args[0]), ...timeoutOf(args[1]), ...base });
+    case "toHaveAttribute":
+      return step("page_assert", { kind: "attribute_is", ...target, name: str(args[0]), ...textArg(args[1]), ...timeoutOf(args[2]), ...base });
+    case "toHaveValue":
+      return step("page_assert", { kind: "value_is", ...target, ...textArg(args[0]), ...timeoutOf(args[1]), ...base });
+    case "toHaveCSS":
+      return step("page_assert", { kind: "css_is", ...target, name: str(args[0]), ...textArg(args[1]), ...timeoutOf(args[2]), ...base });
+    case "toHaveScreenshot":
+      return screenshotStep(args, target);
+  }
+  throw new ParseError(`匹配器 ${matcher} 不受支持`);
+}
+
+function screenshotStep(args: Node[], target: Record<string, any>): SpecStep {
+  const name = str(args[0]).replace(/\.png$/, "");
+  const o = args[1]?.k === "object" ? args[1] : undefined;
+  const values = o ? Object.fromEntries(o.props.filter(([k]) => k !== "mask").map(([k, v]) => [k, evalLiteral(v)])) : {};
+  const mask = o?.props.find(([k]) => k === "mask")?.[1];
+  const maskSelectors = mask?.k === "array" ? mask.items.map((m) => toTarget(m)?.selector).filter((s): s is string => !!s) : [];
+  return step("visual_assert", definedOnly({
+    name,
+    ...target,
+    fullPage: values.fullPage,
+    threshold: values.threshold,
+    maxDiffPixels: values.maxDiffPixels,
+    maxDiffPercent: values.maxDiffPixelRatio !== undefined ? values.maxDiffPixelRatio * 100 : undefined,
+    mask: maskSelectors.length ? maskSelectors : undefined
+  }));
+}
+
+function dialogStep(handler: Node | undefined): SpecStep {
+  if (handler?.k !== "arrow" || Array.isArray(handler.body)) throw new ParseError("dialog 处理函数仅支持单表达式");
+  const body = unwrapAwait(handler.body);
+  if (body.k === "call" && body.callee.k === "member" && (body.callee.prop === "accept" || body.callee.prop === "dismiss")) {
+    return step("dialog_policy", { action: body.callee.prop, ...(body.args[0] ? { promptText: str(body.args[0]) } : {}) });
+  }
+  throw new ParseError("无法识别的 dialog 处理函数");
+}
+
+function routeStep(urlNode: Node | undefined, handler: Node | undefined): SpecStep {
+  const url = evalLiteral(urlNode!);
+  const urlArgs = url instanceof RegExp ? { url: patternOf(url), regex: true } : { url: String(url) };
+  if (handler?.k !== "arrow" || Array.isArray(handler.body)) throw new ParseError("route 处理函数仅支持单表达式");
+  const body = unwrapAwait(handler.body);
+  if (body.k !== "call" || body.callee.k !== "member") throw new ParseError("无法识别的 route 处理函数");
+  switch (body.callee.prop) {
+    case "abort":
+      return step("network_route", { ...urlArgs, action: "abort", ...(body.args[0] ? { errorCode: str(body.args[0]) } : {}) });
+    case "continue":
+      return step("network_route", { ...urlArgs, action: "continue" });
+    case "fulfill": {
+      const o = body.args[0] ? evalLiteral(body.args[0]) : {};
+      return step("network_route", { ...urlArgs, ...definedOnly({ status: o.status, body: o.body, json: o.json, path: o.path, contentType: o.contentType, headers: o.headers }) });
+    }
+  }
+  throw new ParseError(`route.${body.callee.prop} 不受支持`);
+}
+
+// page.evaluate 的参数：字符串表达式或无参箭头函数（取其表达式源码）
+function evaluateSource(node: Node | undefined, source: string): string {
+  if (!node) throw new ParseError("evaluate 缺少参数");
+  if (node.k === "lit" && typeof node.v === "string") return node.v;
+  if (node.k === "arrow" && !Array.isArray(node.body) && node.params.length <= 1) {
+    const text = source.slice(node.body.start, node.body.end).trim();
+    return /^\(.*\)$/s.test(text) ? text.slice(1, -1).trim() : text;
+  }
+  throw new ParseError("evaluate 仅支持字符串或单表达式箭头函数");
+}
+
+// page.locator / getBy* / frameLocator 链转换为 selector（以 >> 连接）与 frame
+function toTarget(node: Node): { selector: string; frame?: any } | null {
+  const chain: Array<{ name: string; args: Node[] }> = [];
+  let cur = node;
+  while (cur.k === "call" && cur.callee.k === "member") {
+    chain.unshift({ name: cur.callee.prop, args: cur.args });
+    cur = cur.callee.obj;
+  }
+  if (cur.k !== "id" || cur.name !== "page") return null;
+  const frames: string[] = [];
+  let frameObject: any;
+  const parts: string[] = [];
+  const exactOf = (n: Node | undefined) => (n?.k === "object" ? !!evalLiteral(n).exact : false);
+  const quoted = (v: unknown, exact: boolean) => `${JSON.stringify(String(v))}${exact ? "s" : "i"}`;
+  for (const { name, args } of chain) {
+    const v = args[0] ? evalLiteral(args[0]) : undefined;
+    switch (name) {
+      case "frameLocator":
+        if (parts.length) throw new ParseError("locator 之后的 frameLocator 不受支持");
+        frames.push(String(v));
+        break;
+      case "frame":
+        frameObject = v;
+        break;
+      case "locator":
+        parts.push(String(v));
+        break;
+      case "getByTestId":
+        parts.push(`data-testid=${v}`);
+        break;
+      case "getByRole": {
+        const o = args[1] ? evalLiteral(args[1]) : {};
+        parts.push(`role=${v}${o.name !== undefined ? `[name=${quoted(o.name, !!o.exact)}]` : ""}`);
+        break;
+      }
+      case "getByText":
+        parts.push(v instanceof RegExp ? `text=/${v.source}/${v.flags}` : exactOf(args[1]) ? `text=${JSON.stringify(v)}` : `text=${v}`);
+        break;
+      case "getByLabel":
+        parts.push(`internal:label=${quoted(v, exactOf(args[1]))}`);
+        break;
+      case "getByPlaceholder":
+        parts.push(`internal:attr=[placeholder=${quoted(v, exactOf(args[1]))}]`);
+        break;
+      case "getByAltText":
+        parts.push(`internal:attr=[alt=${quoted(v, exactOf(args[1]))}]`);
+        break;
+      case "getByTitle":
+        parts.push(`internal:attr=[title=${quoted(v, exactOf(args[1]))}]`);
+        break;
+      case "first":
+        break;
+      case "last":
+        parts.push("nth=-1");
+        break;
+      case "nth":
+        parts.push(`nth=${v}`);
+        break;
+      default:
+        throw new ParseError(`定位方法 ${name}() 不受支持`);
+    }
+  }
+  if (!parts.length) return null;
+  const frame = frameObject ?? (frames.length === 1 ? frames[0] : frames.length ? frames : undefined);
+  return { selector: parts.join(" >> "), ...(frame !== undefined ? { frame } : {}) };
+}
+
+function step(name: string, args: Record<string, any>): SpecStep {
+  return { name, arguments: args };
+}
+
+// 选项对象中按映射表取出字段（如 timeout -> timeoutMs）
+function opts(node: Node | undefined, mapping: Record<string, string>): Record<string, any> {
+  if (!node) return {};
+  const o = evalLiteral(node);
+  const out: Record<string, any> = {};
+  for (const [from, to] of Object.entries(mapping)) if (o?.[from] !== undefined) out[to] = o[from];
+  return out;
+}
+
+function str(node: Node | undefined): string {
+  const v = node ? evalLiteral(node) : undefined;
+  if (typeof v !== "string") throw new ParseError("期望字符串参数");
+  return v;
+}
+
+function unwrapAwait(node: Node): Node {
+  return node.k === "await" ? node.arg : node;
+}
+
+// a.b.c 形式的成员链名称
+function chainName(node: Node): string | null {
+  if (node.k === "id") return node.name;
+  if (node.k === "member") {
+    const base = chainName(node.obj);
+    return base ? `${base}.${node.prop}` : null;
+  }
+  return null;
+}
+
+function evalLiteral(node: Node): any {
+  switch (node.k) {
+    case "lit":
+      return node.v;
+    case "array":
+      return node.items.map(evalLiteral);
+    case "object":
+      return Object.fromEntries(node.props.map(([k, v]) => [k, evalLiteral(v)]));
+    case "unary":
+      if (node.op === "-") return -evalLiteral(node.arg);
+      break;
+    case "new":
+      if (chainName(node.callee) === "RegExp") return new RegExp(evalLiteral(node.args[0]), node.args[1] ? evalLiteral(node.args[1]) : undefined);
+      break;
+    case "member": {
+      // vars.x / process.env.X 还原为变量占位
+      const name = chainName(node);
+      if (name?.startsWith("vars.")) return `\${${name.slice(5)}}`;
+      if (name?.startsWith("process.env.")) return `\${env.${name.slice(12)}}`;
+      break;
+    }
+  }
+  throw new ParseError("参数不是字面量");
+}
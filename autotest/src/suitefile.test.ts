@@ -0,0 +1,105 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { z } from "zod";
+import { loadSuiteFile, validateSuite } from "./suitefile.js";
+
+const tools: Record<string, z.ZodTypeAny> = {
+  page_goto: z.object({ url: z.string() }),
+  page_click: z.object({ selector: z.string() }),
+  page_wait: z.object({ ms: z.number() })
+};
+const schemaOf = (tool: string) => tools[tool];
+
+async function withDir(fn: (dir: string) => Promise<void>): Promise<void> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "autotest-suite-"));
+  try {
+    await fn(dir);
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
+
+const writeJson = (file: string, data: unknown) => fs.writeFile(file, JSON.stringify(data));
+
+test("loadSuiteFile：被包含文件在前，当前文件覆盖定义，teardown 逆序", async () => {
+  await withDir(async (dir) => {
+    await writeJson(path.join(dir, "common.json"), {
+      vars: { base: "https://a.com", user: "alice" },
+      setup: [{ name: "page_goto", arguments: { url: "${base}" } }],
+      teardown: [{ name: "page_wait", arguments: { ms: 1 } }]
+    });
+    await writeJson(path.join(dir, "suite.json"), {
+      include: ["common.json"],
+      vars: { user: "bob" },
+      setup: [{ name: "page_click", arguments: { selector: "#ok" } }],
+      teardown: [{ name: "page_wait", arguments: { ms: 2 } }],
+      tests: [{ name: "t", steps: [] }]
+    });
+    const files: string[] = [];
+    const data = await loadSuiteFile(path.join(dir, "suite.json"), files);
+    assert.equal(data.include, undefined);
+    assert.deepEqual(data.vars, { base: "https://a.com", user: "bob" });
+    assert.deepEqual(data.setup.map((s: any) => s.name), ["page_goto", "page_click"]);
+    assert.deepEqual(data.teardown.map((s: any) => s.arguments.ms), [2, 1]);
+    assert.deepEqual(files.map((f) => path.basename(f)).sort(), ["common.json", "suite.json"]);
+  });
+});
+
+test("loadSuiteFile：include 循环报错", async () => {
+  await withDir(async (dir) => {
+    await writeJson(path.join(dir, "a.json"), { include: ["b.json"] });
+    await writeJson(path.join(dir, "b.json"), { include: ["a.json"] });
+    await assert.rejects(loadSuiteFile(path.join(dir, "a.json")), /include 循环: a\.json → b\.json → a\.json/);
+  });
+});
+
+test("loadSuiteFile：dataFile 相对于声明它的文件", async () => {
+  await withDir(async (dir) => {
+    await fs.mkdir(path.join(dir, "shared"));
+    await fs.writeFile(path.join(dir, "shared", "users.csv"), "user\nalice\n");
+    await writeJson(path.join(dir, "shared", "tests.json"), { tests: [{ name: "login", dataFile: "users.csv", steps: [] }] });
+    await writeJson(path.join(dir, "suite.json"), { include: ["shared/tests.json"] });
+    const data = await loadSuiteFile(path.join(dir, "suite.json"));
+    assert.equal(data.tests[0].dataFile, path.join(dir, "shared", "users.csv"));
+    const result = await validateSuite(data, schemaOf);
+    assert.deepEqual(result.errors, []);
+    assert.equal(result.tests, 1);
+  });
+});
+
+test("validateSuite：未知工具、参数错误、未定义的宏与定位器", async () => {
+  const result = await validateSuite({
+    locators: { submit: "#submit", unused: "#x" },
+    macros: { login: { params: ["user"], steps: [{ name: "page_click", arguments: { selector: "@submit" } }] } },
+    tests: [
+      { name: "a", steps: [{ name: "page_hover", arguments: {} }, { name: "page_wait", arguments: { ms: "soon" } }] },
+      { name: "b", steps: [{ macro: "logout" }, { name: "page_click", arguments: { selector: "@missing" } }, { macro: "login" }] },
+      { name: "b", steps: [{ name: "page_wait", arguments: { ms: "${delay}" } }] }
+    ]
+  }, schemaOf);
+  assert.equal(result.ok, false);
+  assert.equal(result.kind, "suite");
+  assert.equal(result.tests, 3);
+  const messages = result.errors.map((e) => `${e.where}: ${e.message}`);
+  assert.equal(messages.length, 5, messages.join("\n"));
+  assert.match(messages[0], /^测试 'a' 第 1 步: 未知工具 page_hover/);
+  assert.match(messages[1], /^测试 'a' 第 2 步: page_wait: ms /);
+  assert.match(messages[2], /^测试 'b' 第 1 步: 未定义的宏: logout（已定义：login）/);
+  assert.match(messages[3], /^测试 'b' 第 2 步: .*missing/);
+  assert.match(messages[4], /^测试 'b' 第 3 步: .*缺少参数: user/);
+  assert.deepEqual(result.warnings, [
+    { where: "测试 'b'", message: "测试名称重复，报告与运行历史中无法区分" },
+    { where: "定位器 @unused", message: "未被使用" }
+  ]);
+});
+
+test("validateSuite：只有共享定义的文件为 library，不报告未使用", async () => {
+  const result = await validateSuite({ macros: { open: { steps: [{ name: "page_goto", arguments: { url: "/" } }] } } }, schemaOf);
+  assert.equal(result.kind, "library");
+  assert.equal(result.ok, true);
+  assert.deepEqual(result.warnings, []);
+  assert.equal(result.steps, 1);
+});
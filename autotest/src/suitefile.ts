@@ -0,0 +1,319 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { z } from "zod";
+import { expandDataTests, Macro, macroArguments, macroSchema, parseStep, stepBodies } from "./flow.js";
+import { LocatorMap, locatorName, locatorsSchema, primarySelectors, SELECTOR_KEYS } from "./locators.js";
+import { readablePath } from "./policy.js";
+import { validateSelector } from "./selectors.js";
+
+// ---------------------------------------------------------------------------
+// 套件文件：include 合并其它计划/套件文件，macros 为可复用的步骤片段，locators 为具名选择器
+// ---------------------------------------------------------------------------
+
+export const suiteFileFields = {
+  // 合并的计划/套件文件：相对于当前文件所在目录（内联参数时相对于工作目录）
+  include: z.array(z.string()).optional(),
+  macros: z.record(macroSchema).optional(),
+  locators: locatorsSchema.optional()
+};
+
+type SuiteData = Record<string, any>;
+
+// 按名称合并的定义（当前文件覆盖被包含文件）与按顺序拼接的步骤列表（被包含文件在前）
+const MERGED_MAPS = ["vars", "macros", "locators"];
+const MERGED_LISTS = ["steps", "setup", "beforeEach", "tests", "afterEach"];
+
+// 读取计划/套件文件并展开 include；files 收集读取过的文件（含被包含文件）
+export async function loadSuiteFile(file: string, files: string[] = []): Promise<SuiteData> {
+  return readSuiteFile(path.resolve(file), files, []);
+}
+
+// 展开 data 中的 include（相对于 baseDir），返回不含 include 的合并结果
+export async function resolveIncludes(data: SuiteData, baseDir: string, files: string[] = [], stack: string[] = []): Promise<SuiteData> {
+  if (data.include === undefined) return data;
+  if (!Array.isArray(data.include) || data.include.some((f: unknown) => typeof f !== "string")) {
+    throw new McpError(ErrorCode.InvalidParams, "include 应为文件路径数组");
+  }
+  const { include, ...own } = data;
+  let merged: SuiteData = {};
+  for (const file of include as string[]) {
+    merged = mergeSuites(merged, await readSuiteFile(path.resolve(baseDir, file), files, stack));
+  }
+  return mergeSuites(merged, own);
+}
+
+async function readSuiteFile(file: string, files: string[], stack: string[]): Promise<SuiteData> {
+  const abs = readablePath(file, "include");
+  if (stack.includes(abs)) {
+    throw new McpError(ErrorCode.InvalidParams, `include 循环: ${[...stack, abs].map((f) => path.basename(f)).join(" → ")}`);
+  }
+  let raw: string;
+  try {
+    raw = await fs.readFile(abs, "utf-8");
+  } catch (e: any) {
+    throw new McpError(ErrorCode.InvalidParams, `无法读取 ${file}: ${e?.message ?? e}`);
+  }
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch (e: any) {
+    throw new McpError(ErrorCode.InvalidParams, `${file} 不是有效的 JSON: ${e?.message ?? e}`);
+  }
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    throw new McpError(ErrorCode.InvalidParams, `${file} 应为 JSON 对象`);
+  }
+  if (!files.includes(abs)) files.push(abs);
+  return resolveIncludes(withDataFilesFrom(data as SuiteData, path.dirname(abs)), path.dirname(abs), files, [...stack, abs]);
+}
+
+// 测试的 dataFile 相对于声明它的文件所在目录，合并后不再依赖工作目录
+function withDataFilesFrom(data: SuiteData, baseDir: string): SuiteData {
+  if (!Array.isArray(data.tests)) return data;
+  const tests = data.tests.map((t: any) => (typeof t?.dataFile === "string" ? { ...t, dataFile: path.resolve(baseDir, t.dataFile) } : t));
+  return { ...data, tests };
+}
+
+// 合并两个文件：其它选项以 next 为准；teardown 逆序拼接，后包含的先清理
+function mergeSuites(base: SuiteData, next: SuiteData): SuiteData {
+  const kind = (d: SuiteData) => (Array.isArray(d.steps) ? "plan" : Array.isArray(d.tests) ? "suite" : undefined);
+  if (kind(base) && kind(next) && kind(base) !== kind(next)) {
+    throw new McpError(ErrorCode.InvalidParams, "不能混合测试计划（steps）与测试套件（tests），共享步骤请定义为 macros");
+  }
+  const list = (v: unknown): unknown[] => (Array.isArray(v) ? v : []);
+  const out: SuiteData = { ...base, ...next };
+  for (const key of MERGED_MAPS) {
+    if (base[key] || next[key]) out[key] = { ...base[key], ...next[key] };
+  }
+  for (const key of MERGED_LISTS) {
+    if (base[key] || next[key]) out[key] = [...list(base[key]), ...list(next[key])];
+  }
+  if (base.teardown || next.teardown) out.teardown = [...list(next.teardown), ...list(base.teardown)];
+  return out;
+}
+
+// ---------------------------------------------------------------------------
+// 静态校验：不启动浏览器，检查步骤结构、工具参数、宏调用、定位器引用与数据文件
+// ---------------------------------------------------------------------------
+
+export type ValidationIssue = { where: string; message: string };
+
+export type ValidationResult = {
+  ok: boolean;
+  // library：只有 macros / locators / vars 的共享定义文件，供其它文件 include
+  kind: "plan" | "suite" | "library";
+  files: string[];
+  tests: number;
+  steps: number;
+  errors: ValidationIssue[];
+  warnings: ValidationIssue[];
+};
+
+// 步骤列表在各步骤中单独校验，顶层 schema 对其中内容的错误不再重复报告
+const STEP_LIST_KEYS = new Set(["steps", "setup", "beforeEach", "afterEach", "teardown"]);
+
+function inStepList(issuePath: Array<string | number>): boolean {
+  return STEP_LIST_KEYS.has(String(issuePath[0])) || ((issuePath[0] === "tests" || issuePath[0] === "macros") && issuePath[2] === "steps");
+}
+
+export async function validateSuite(data: SuiteData, schemaOf: (tool: string) => z.ZodTypeAny | undefined, files: string[] = []): Promise<ValidationResult> {
+  const kind = suiteKind(data);
+  const errors: ValidationIssue[] = [];
+  const warnings: ValidationIssue[] = [];
+  const error = (where: string, message: string) => errors.push({ where, message });
+  const locators: LocatorMap | undefined = data.locators;
+  const macros: Record<string, Macro> = data.macros ?? {};
+  const usedLocators = new Set<string>();
+  const usedMacros = new Set<string>();
+  let stepCount = 0;
+
+  const top = kind === "library" ? undefined : schemaOf(kind === "plan" ? "test_plan_run" : "test_suite_run")?.safeParse(data);
+  if (top && !top.success) {
+    for (const issue of top.error.issues) {
+      if (inStepList(issue.path)) continue;
+      error(kind === "plan" ? "计划" : "套件", `${issue.path.join(".") || "参数"}: ${issue.message}`);
+    }
+  }
+
+  for (const [name, entry] of Object.entries(locators ?? {})) {
+    for (const selector of typeof entry === "string" ? [entry] : Array.isArray(entry) ? entry : []) {
+      checkSelector(`定位器 @${name}`, selector, error);
+    }
+  }
+
+  // 把 "@名称" 替换为首选选择器，未定义的引用记为错误
+  const withLocators = (args: Record<string, any>, where: string): Record<string, any> | null => {
+    for (const key of SELECTOR_KEYS) {
+      const name = locatorName(args[key]);
+      if (name !== undefined) usedLocators.add(name);
+    }
+    try {
+      return primarySelectors(args, locators);
+    } catch (e: any) {
+      error(where, messageOf(e));
+      return null;
+    }
+  };
+
+  const checkToolStep = (name: string, rawArgs: Record<string, any>, where: string) => {
+    const schema = schemaOf(name);
+    if (!schema) {
+      error(where, `未知工具 ${name}`);
+      return;
+    }
+    const args = withLocators(rawArgs, where);
+    if (!args) return;
+    for (const key of SELECTOR_KEYS) {
+      if (typeof args[key] === "string") checkSelector(where, args[key], error);
+    }
+    const parsed = schema.safeParse(args);
+    if (parsed.success) return;
+    for (const issue of parsed.error.issues) {
+      // 含 ${...} 的取值在运行时插值后才能确定类型
+      if (hasPlaceholder(valueAt(rawArgs, issue.path))) continue;
+      error(where, `${name}: ${issue.path.join(".") || "arguments"} ${issue.message}`);
+    }
+  };
+
+  const walk = (steps: unknown, scope: string, prefix = "") => {
+    if (!Array.isArray(steps)) return;
+    steps.forEach((raw, i) => {
+      const at = prefix ? `${prefix}.${i + 1}` : String(i + 1);
+      const where = `${scope} 第 ${at} 步`;
+      let step;
+      try {
+        step = parseStep(raw, at);
+      } catch (e: any) {
+        error(scope, messageOf(e));
+        return;
+      }
+      stepCount++;
+      if ("name" in step) {
+        checkToolStep(step.name, step.arguments ?? {}, where);
+        return;
+      }
+      if ("macro" in step) {
+        usedMacros.add(step.macro);
+        const macro = macros[step.macro];
+        if (!macro) {
+          error(where, `未定义的宏: ${step.macro}${Object.keys(macros).length ? `（已定义：${Object.keys(macros).join(", ")}）` : ""}`);
+        } else {
+          try { macroArguments(step.macro, macro, step.with ?? {}); } catch (e: any) { error(where, messageOf(e)); }
+        }
+        return;
+      }
+      if ("if" in step) withLocators(step.if, where);
+      if ("while" in step) withLocators(step.while, where);
+      for (const body of stepBodies(step)) walk(body.steps, scope, `${at}${body.suffix}`);
+    });
+  };
+
+  for (const [name, macro] of Object.entries(macros)) {
+    if (!Array.isArray(macro?.steps)) {
+      error(`宏 '${name}'`, "需要 steps 数组");
+      continue;
+    }
+    walk(macro.steps, `宏 '${name}'`);
+  }
+  for (const cycle of macroCycles(macros)) error(`宏 '${cycle[0]}'`, `递归调用: ${cycle.join(" → ")}`);
+
+  let testCount = 0;
+  if (kind === "plan") {
+    walk(data.steps, "计划");
+    testCount = 1;
+  } else if (kind === "suite") {
+    walk(data.setup, "setup");
+    walk(data.beforeEach, "beforeEach");
+    const names = new Set<string>();
+    for (const [i, test] of (Array.isArray(data.tests) ? data.tests : []).entries()) {
+      const scope = `测试 '${test?.name ?? i + 1}'`;
+      walk(test?.steps, scope);
+      if (typeof test?.name !== "string") continue;
+      if (names.has(test.name)) warnings.push({ where: scope, message: "测试名称重复，报告与运行历史中无法区分" });
+      names.add(test.name);
+      try {
+        testCount += (await expandDataTests([test])).length;
+      } catch (e: any) {
+        error(scope, messageOf(e));
+      }
+    }
+    walk(data.afterEach, "afterEach");
+    walk(data.teardown, "teardown");
+  }
+
+  // 共享定义文件中的定义由包含它的文件使用
+  if (kind !== "library") {
+    for (const name of Object.keys(locators ?? {})) {
+      if (!usedLocators.has(name)) warnings.push({ where: `定位器 @${name}`, message: "未被使用" });
+    }
+    for (const name of Object.keys(macros)) {
+      if (!usedMacros.has(name)) warnings.push({ where: `宏 '${name}'`, message: "未被使用" });
+    }
+  }
+  return { ok: !errors.length, kind, files, tests: testCount, steps: stepCount, errors, warnings };
+}
+
+export function suiteKind(data: SuiteData): ValidationResult["kind"] {
+  if (Array.isArray(data.steps)) return "plan";
+  if (data.tests !== undefined) return "suite";
+  return data.macros || data.locators ? "library" : "suite";
+}
+
+function checkSelector(where: string, selector: string, error: (where: string, message: string) => void): void {
+  if (hasPlaceholder(selector) || locatorName(selector) !== undefined) return;
+  try {
+    validateSelector(selector);
+  } catch (e: any) {
+    error(where, messageOf(e));
+  }
+}
+
+// 宏之间的调用环（含自身递归），每个环只报告一次
+function macroCycles(macros: Record<string, Macro>): string[][] {
+  const calls = (steps: unknown, out: Set<string>) => {
+    if (!Array.isArray(steps)) return out;
+    for (const raw of steps) {
+      let step;
+      try { step = parseStep(raw, ""); } catch { continue; }
+      if ("macro" in step) out.add(step.macro);
+      else if (!("name" in step)) for (const body of stepBodies(step)) calls(body.steps, out);
+    }
+    return out;
+  };
+  const graph = new Map(Object.entries(macros).map(([name, m]) => [name, calls(m?.steps, new Set())]));
+  const cycles: string[][] = [];
+  const reported = new Set<string>();
+  const visit = (name: string, stack: string[]) => {
+    const at = stack.indexOf(name);
+    if (at >= 0) {
+      const cycle = [...stack.slice(at), name];
+      const key = [...cycle.slice(0, -1)].sort().join("\u0000");
+      if (!reported.has(key)) {
+        reported.add(key);
+        cycles.push(cycle);
+      }
+      return;
+    }
+    for (const next of graph.get(name) ?? []) visit(next, [...stack, name]);
+  };
+  for (const name of graph.keys()) visit(name, []);
+  return cycles;
+}
+
+function valueAt(value: unknown, keys: Array<string | number>): unknown {
+  let cur: any = value;
+  for (const key of keys) {
+    if (cur === null || typeof cur !== "object") return undefined;
+    cur = cur[key];
+  }
+  return cur;
+}
+
+// 校验结果中去掉 McpError 的 "MCP error -32602: " 前缀
+export function messageOf(e: any): string {
+  return String(e?.message ?? e).replace(/^MCP error -?\d+: /, "");
+}
+
+function hasPlaceholder(value: unknown): boolean {
+  return value !== undefined && JSON.stringify(value).includes("${");
+}
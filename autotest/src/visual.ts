@@ -0,0 +1,36 @@
+import pixelmatch from "pixelmatch";
+import { PNG } from "pngjs";
+
+export type VisualCompareOptions = {
+  // pixelmatch 颜色阈值（0~1），越小越敏感
+  threshold?: number;
+};
+
+export type VisualCompareResult = {
+  sizeMismatch: boolean;
+  diffPixels: number;
+  totalPixels: number;
+  diffRatio: number;
+  diff: Buffer | null;
+};
+
+// 逐像素比较两张 PNG，返回差异像素数量与 diff 图（尺寸不一致时不生成 diff）
+export function compareScreenshots(actual: Buffer, expected: Buffer, options: VisualCompareOptions = {}): VisualCompareResult {
+  const a = PNG.sync.read(actual);
+  const e = PNG.sync.read(expected);
+  if (a.width !== e.width || a.height !== e.height) {
+    const totalPixels = Math.max(a.width * a.height, e.width * e.height);
+    return { sizeMismatch: true, diffPixels: totalPixels, totalPixels, diffRatio: 1, diff: null };
+  }
+  const { width, height } = a;
+  const out = new PNG({ width, height });
+  const diffPixels = pixelmatch(a.data, e.data, out.data, width, height, { threshold: options.threshold ?? 0.1 });
+  const totalPixels = width * height;
+  return {
+    sizeMismatch: false,
+    diffPixels,
+    totalPixels,
+    diffRatio: totalPixels ? diffPixels / totalPixels : 0,
+    diff: PNG.sync.write(out)
+  };
+}